@@ -32,6 +32,14 @@ const config: ForgeConfig = {
               js: './src/preload.ts',
             },
           },
+          {
+            html: './src/settings.html',
+            js: './src/settings.tsx',
+            name: 'settings_window',
+            preload: {
+              js: './src/preload.ts',
+            },
+          },
         ],
       },
     }),
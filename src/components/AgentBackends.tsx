@@ -0,0 +1,139 @@
+// components/AgentBackends
+// Editor for the list of agent backends in the settings window
+import type { AgentBackendConfig, AgentBackendType } from "../lib/config";
+import { SelectField, TextField } from "./Fields";
+
+const TYPE_OPTIONS: { value: AgentBackendType; label: string }[] = [
+  { value: "goose", label: "Goose" },
+  { value: "command", label: "Custom command" },
+  { value: "chat", label: "Chat completions (Groq / OpenAI-compatible)" },
+];
+
+// A short unique id derived from the name, referenced by shortcut bindings
+function createBackendId(name: string, backends: AgentBackendConfig[]) {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, "-") || "agent";
+  let id = base;
+  for (let n = 2; backends.some((backend) => backend.id === id); n++) {
+    id = `${base}-${n}`;
+  }
+  return id;
+}
+
+const AgentBackends: React.FC<{
+  backends: AgentBackendConfig[];
+  onChange: (backends: AgentBackendConfig[]) => void;
+}> = ({ backends, onChange }) => {
+  const updateBackend = (id: string, values: Partial<AgentBackendConfig>) =>
+    onChange(
+      backends.map((backend) =>
+        backend.id === id ? { ...backend, ...values } : backend,
+      ),
+    );
+
+  const addBackend = () =>
+    onChange([
+      ...backends,
+      {
+        id: createBackendId("Agent", backends),
+        name: "Agent",
+        type: "command",
+        args: [],
+        promptInput: "stdin",
+      },
+    ]);
+
+  return (
+    <>
+      {backends.map((backend) => (
+        <div
+          key={backend.id}
+          style={{ borderTop: "1px solid #eee", padding: "6px 0" }}
+        >
+          <TextField
+            label="Name"
+            value={backend.name}
+            hint={`Id: ${backend.id}`}
+            onChange={(name) => updateBackend(backend.id, { name })}
+          />
+          <SelectField
+            label="Type"
+            value={backend.type}
+            options={TYPE_OPTIONS}
+            onChange={(type) => updateBackend(backend.id, { type })}
+          />
+          {backend.type !== "chat" && (
+            <>
+              <TextField
+                label="Executable"
+                value={backend.command}
+                placeholder={backend.type === "goose" ? "Bundled goose" : ""}
+                onChange={(command) => updateBackend(backend.id, { command })}
+              />
+              <TextField
+                label="Arguments"
+                value={backend.args.join(" ")}
+                hint="{prompt} is replaced with the prompt when it is passed as an argument"
+                onChange={(args) =>
+                  updateBackend(backend.id, { args: args.split(" ") })
+                }
+              />
+              <SelectField
+                label="Prompt"
+                value={backend.promptInput}
+                options={[
+                  { value: "stdin", label: "On standard input" },
+                  { value: "argument", label: "As an argument" },
+                ]}
+                onChange={(promptInput) =>
+                  updateBackend(backend.id, { promptInput })
+                }
+              />
+            </>
+          )}
+          {backend.type === "chat" && (
+            <>
+              <TextField
+                label="Model"
+                value={backend.model}
+                onChange={(model) => updateBackend(backend.id, { model })}
+              />
+              <TextField
+                label="Base URL"
+                value={backend.baseUrl}
+                placeholder="Groq when empty"
+                onChange={(baseUrl) => updateBackend(backend.id, { baseUrl })}
+              />
+              <TextField
+                label="API key"
+                type="password"
+                value={backend.apiKey}
+                placeholder="From .env when empty"
+                onChange={(apiKey) => updateBackend(backend.id, { apiKey })}
+              />
+              <TextField
+                label="System prompt"
+                value={backend.systemPrompt}
+                onChange={(systemPrompt) =>
+                  updateBackend(backend.id, { systemPrompt })
+                }
+              />
+            </>
+          )}
+          <button
+            style={{ fontSize: "12px" }}
+            onClick={() =>
+              onChange(backends.filter((other) => other.id !== backend.id))
+            }
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+      <button style={{ fontSize: "12px" }} onClick={addBackend}>
+        Add agent
+      </button>
+    </>
+  );
+};
+
+export default AgentBackends;
@@ -0,0 +1,85 @@
+// components/AnswerPanel
+// The agent's answer under the Notch, with keys to copy, insert or dismiss it
+import { useState, useEffect } from "react";
+import Markdown from "./Markdown";
+
+const buttonStyle: React.CSSProperties = { fontSize: "11px" };
+
+const AnswerPanel: React.FC<{ answer: string }> = ({ answer }) => {
+  const [copied, setCopied] = useState<boolean>(false);
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(answer);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  // The overlay is focused while an answer is shown, so plain keys work
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const modifier = event.metaKey || event.ctrlKey;
+      if (event.key === "Escape") {
+        window.electronAPI.dismissAnswer();
+      } else if (event.key === "Enter" && modifier) {
+        window.electronAPI.insertAnswer();
+      } else if (event.key === "c" && modifier) {
+        // Copying a selection keeps the default behaviour
+        if (!window.getSelection()?.toString()) {
+          event.preventDefault();
+          copy();
+        }
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [answer]);
+
+  return (
+    <div
+      style={{
+        marginTop: "8px",
+        width: "360px",
+        maxHeight: "420px",
+        overflowY: "auto",
+        padding: "8px 10px",
+        color: "white",
+        backgroundColor: "#232323",
+        border: "1px solid rgba(255, 255, 255, 0.1)",
+        borderRadius: "8px",
+        fontSize: "13px",
+        lineHeight: 1.45,
+      }}
+    >
+      <Markdown text={answer} />
+      <div
+        style={{
+          display: "flex",
+          gap: "6px",
+          marginTop: "8px",
+          fontSize: "11px",
+          alignItems: "center",
+        }}
+      >
+        <button style={buttonStyle} onClick={copy} title="Ctrl/Cmd+C">
+          {copied ? "Copied" : "Copy"}
+        </button>
+        <button
+          style={buttonStyle}
+          onClick={() => window.electronAPI.insertAnswer()}
+          title="Ctrl/Cmd+Enter"
+        >
+          Insert
+        </button>
+        <button
+          style={buttonStyle}
+          onClick={() => window.electronAPI.dismissAnswer()}
+          title="Esc"
+        >
+          Dismiss
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AnswerPanel;
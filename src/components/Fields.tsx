@@ -0,0 +1,138 @@
+// components/Fields
+// Small labelled form controls shared by the settings window
+import React from "react";
+
+const rowStyle: React.CSSProperties = {
+  display: "flex",
+  alignItems: "center",
+  justifyContent: "space-between",
+  gap: "12px",
+  margin: "6px 0",
+};
+
+const inputStyle: React.CSSProperties = {
+  width: "240px",
+  padding: "4px 6px",
+  fontSize: "13px",
+};
+
+export const Section: React.FC<{
+  title: string;
+  children: React.ReactNode;
+}> = ({ title, children }) => (
+  <fieldset
+    style={{
+      border: "1px solid #ddd",
+      borderRadius: "6px",
+      margin: "12px 0",
+      padding: "8px 12px",
+    }}
+  >
+    <legend style={{ fontWeight: 600, padding: "0 4px" }}>{title}</legend>
+    {children}
+  </fieldset>
+);
+
+export const Field: React.FC<{
+  label: string;
+  hint?: string;
+  children: React.ReactNode;
+}> = ({ label, hint, children }) => (
+  <label style={rowStyle} title={hint}>
+    <span style={{ fontSize: "13px" }}>{label}</span>
+    {children}
+  </label>
+);
+
+export const TextField: React.FC<{
+  label: string;
+  value: string | undefined;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  hint?: string;
+  type?: "text" | "password";
+}> = ({ label, value, onChange, placeholder, hint, type = "text" }) => (
+  <Field label={label} hint={hint}>
+    <input
+      style={inputStyle}
+      type={type}
+      value={value ?? ""}
+      placeholder={placeholder}
+      onChange={(event) => onChange(event.target.value)}
+    />
+  </Field>
+);
+
+export const NumberField: React.FC<{
+  label: string;
+  value: number | undefined;
+  onChange: (value: number | undefined) => void;
+  hint?: string;
+}> = ({ label, value, onChange, hint }) => (
+  <Field label={label} hint={hint}>
+    <input
+      style={inputStyle}
+      type="number"
+      value={value ?? ""}
+      onChange={(event) =>
+        onChange(
+          event.target.value === "" ? undefined : Number(event.target.value),
+        )
+      }
+    />
+  </Field>
+);
+
+export function SelectField<T extends string>({
+  label,
+  value,
+  options,
+  onChange,
+  hint,
+}: {
+  label: string;
+  value: T;
+  options: { value: T; label: string }[];
+  onChange: (value: T) => void;
+  hint?: string;
+}) {
+  return (
+    <Field label={label} hint={hint}>
+      <select
+        style={inputStyle}
+        value={value}
+        onChange={(event) => onChange(event.target.value as T)}
+      >
+        {options.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </Field>
+  );
+}
+
+export const CheckboxField: React.FC<{
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+  hint?: string;
+}> = ({ label, checked, onChange, hint }) => (
+  <Field label={label} hint={hint}>
+    <input
+      type="checkbox"
+      checked={checked}
+      onChange={(event) => onChange(event.target.checked)}
+    />
+  </Field>
+);
+
+// IPC errors arrive as "Error invoking remote method 'x': Error: message"
+export function getErrorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.replace(
+    /^Error invoking remote method '[^']+': (Error: )?/,
+    "",
+  );
+}
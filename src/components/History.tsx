@@ -0,0 +1,219 @@
+// components/History
+import { useState, useEffect, useCallback } from "react";
+import type { HistoryEntry } from "../lib/history";
+import type { QueuedJob } from "../lib/queue";
+import { mimeTypeForExtension } from "../lib/audio";
+import { CLEANUP_STYLE_LABELS } from "../lib/config";
+import { getErrorMessage } from "./Fields";
+
+function formatDuration(durationMs?: number): string {
+  if (durationMs === undefined) return "";
+  const seconds = Math.round(durationMs / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+const buttonStyle: React.CSSProperties = { fontSize: "12px" };
+
+const HistoryComponent: React.FC = () => {
+  const [query, setQuery] = useState<string>("");
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [playing, setPlaying] = useState<{ id: string; url: string } | null>(
+    null,
+  );
+  const [message, setMessage] = useState<string | null>(null);
+  const [queued, setQueued] = useState<QueuedJob[]>([]);
+  const [retrying, setRetrying] = useState<string | null>(null);
+
+  const refresh = useCallback(() => {
+    window.electronAPI.listHistory({ query, limit: 100 }).then(setEntries);
+  }, [query]);
+
+  useEffect(() => {
+    refresh();
+    return window.electronAPI.onHistoryChanged(refresh);
+  }, [refresh]);
+
+  // Recordings whose transcription failed and is retried in the background
+  useEffect(() => {
+    const refreshQueue = () =>
+      window.electronAPI.listQueuedJobs().then(setQueued);
+    refreshQueue();
+    return window.electronAPI.onQueueChanged(refreshQueue);
+  }, []);
+
+  // Release the object URL of the previous recording
+  useEffect(
+    () => () => {
+      if (playing) URL.revokeObjectURL(playing.url);
+    },
+    [playing],
+  );
+
+  const play = async (entry: HistoryEntry) => {
+    const audio = await window.electronAPI.getHistoryAudio(entry.id);
+    if (!audio) {
+      setMessage("The audio of this dictation was not kept.");
+      return;
+    }
+    const type = mimeTypeForExtension(
+      entry.audioPath?.split(".").pop() || "webm",
+    );
+    const url = URL.createObjectURL(new Blob([audio], { type }));
+    setPlaying({ id: entry.id, url });
+  };
+
+  const reinsert = async (entry: HistoryEntry, raw = false) => {
+    try {
+      const result = await window.electronAPI.reinsertHistoryEntry(
+        entry.id,
+        raw,
+      );
+      setMessage(result.message);
+    } catch (error) {
+      setMessage(getErrorMessage(error));
+    }
+  };
+
+  const retry = async (job: QueuedJob) => {
+    setRetrying(job.id);
+    try {
+      const text = await window.electronAPI.retryQueuedJob(job.id);
+      setMessage(
+        text
+          ? "Transcribed, the text is in the history below."
+          : "Transcribed, but no speech was recognised.",
+      );
+    } catch (error) {
+      setMessage(getErrorMessage(error));
+    } finally {
+      setRetrying(null);
+    }
+  };
+
+  return (
+    <div>
+      {queued.length > 0 && (
+        <div style={{ marginBottom: "12px" }}>
+          <h3 style={{ fontSize: "14px", margin: "0 0 6px" }}>
+            Waiting for transcription ({queued.length})
+          </h3>
+          <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>
+            {queued.map((job) => (
+              <li
+                key={job.id}
+                style={{ borderBottom: "1px solid #eee", padding: "6px 0" }}
+              >
+                <div style={{ fontSize: "11px", color: "#777" }}>
+                  {new Date(job.createdAt).toLocaleString()} ·{" "}
+                  {formatDuration(job.durationMs)} · {job.attempts} failed{" "}
+                  {job.attempts === 1 ? "attempt" : "attempts"}
+                  {job.nextAttemptAt > 0
+                    ? ` · next retry ${new Date(job.nextAttemptAt).toLocaleTimeString()}`
+                    : " · no more automatic retries"}
+                </div>
+                <p style={{ margin: "4px 0", fontSize: "12px", color: "#a33" }}>
+                  {job.lastError}
+                </p>
+                <div style={{ display: "flex", gap: "6px" }}>
+                  <button
+                    style={buttonStyle}
+                    disabled={retrying !== null}
+                    onClick={() => retry(job)}
+                  >
+                    {retrying === job.id ? "Retrying…" : "Retry now"}
+                  </button>
+                  <button
+                    style={buttonStyle}
+                    disabled={retrying === job.id}
+                    onClick={() => window.electronAPI.discardQueuedJob(job.id)}
+                  >
+                    Discard
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <input
+        type="search"
+        placeholder="Search transcripts"
+        value={query}
+        onChange={(event) => setQuery(event.target.value)}
+        style={{ width: "100%", padding: "6px", boxSizing: "border-box" }}
+      />
+      {message && <p style={{ fontSize: "13px" }}>{message}</p>}
+
+      {entries.length === 0 && (
+        <p style={{ color: "#777" }}>
+          {query ? "No matching dictations." : "No dictations yet."}
+        </p>
+      )}
+
+      <ul style={{ listStyle: "none", padding: 0 }}>
+        {entries.map((entry) => (
+          <li
+            key={entry.id}
+            style={{ borderBottom: "1px solid #eee", padding: "8px 0" }}
+          >
+            <div style={{ fontSize: "11px", color: "#777" }}>
+              {new Date(entry.createdAt).toLocaleString()} ·{" "}
+              {formatDuration(entry.durationMs)} · {entry.provider}
+              {entry.profile && ` · ${entry.profile}`}
+              {entry.language && ` · ${entry.language}`}
+              {entry.translated && " · translated to English"}
+              {entry.style && ` · ${CLEANUP_STYLE_LABELS[entry.style]}`}
+            </div>
+            <p style={{ margin: "4px 0", whiteSpace: "pre-wrap" }}>
+              {entry.text}
+            </p>
+            {entry.rawText && (
+              <details style={{ fontSize: "12px", color: "#555" }}>
+                <summary>Original transcript</summary>
+                <p style={{ margin: "4px 0", whiteSpace: "pre-wrap" }}>
+                  {entry.rawText}
+                </p>
+              </details>
+            )}
+            <div style={{ display: "flex", gap: "6px" }}>
+              <button style={buttonStyle} onClick={() => reinsert(entry)}>
+                Re-insert
+              </button>
+              {entry.rawText && (
+                <button
+                  style={buttonStyle}
+                  onClick={() => reinsert(entry, true)}
+                >
+                  Insert original
+                </button>
+              )}
+              <button
+                style={buttonStyle}
+                onClick={() => navigator.clipboard.writeText(entry.text)}
+              >
+                Copy
+              </button>
+              {entry.audioPath && (
+                <button style={buttonStyle} onClick={() => play(entry)}>
+                  Play
+                </button>
+              )}
+              <button
+                style={buttonStyle}
+                onClick={() => window.electronAPI.deleteHistoryEntry(entry.id)}
+              >
+                Delete
+              </button>
+            </div>
+            {playing?.id === entry.id && (
+              <audio src={playing.url} controls autoPlay />
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default HistoryComponent;
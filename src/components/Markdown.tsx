@@ -0,0 +1,262 @@
+// components/Markdown
+// Renders the small subset of markdown agents answer with, without injecting HTML
+import React, { useState } from "react";
+
+type Block =
+  | { type: "code"; language: string; code: string }
+  | { type: "heading"; level: number; text: string }
+  | { type: "list"; ordered: boolean; items: string[] }
+  | { type: "quote"; text: string }
+  | { type: "rule" }
+  | { type: "paragraph"; text: string };
+
+const FENCE = /^```\s*([\w+-]*)\s*$/;
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+
+export function parseMarkdown(markdown: string): Block[] {
+  const lines = markdown.replace(/\r\n/g, "\n").split("\n");
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: "paragraph", text: paragraph.join(" ") });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      flushParagraph();
+      const code: string[] = [];
+      // An unterminated fence runs to the end, e.g. while output is still streaming
+      while (++i < lines.length && !FENCE.test(lines[i])) {
+        code.push(lines[i]);
+      }
+      blocks.push({ type: "code", language: fence[1], code: code.join("\n") });
+      continue;
+    }
+
+    if (line.trim() === "") {
+      flushParagraph();
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      flushParagraph();
+      blocks.push({
+        type: "heading",
+        level: heading[1].length,
+        text: heading[2],
+      });
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      flushParagraph();
+      blocks.push({ type: "rule" });
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      flushParagraph();
+      const ordered = /\d/.test(item[1]);
+      const previous = blocks[blocks.length - 1];
+      if (previous?.type === "list" && previous.ordered === ordered) {
+        previous.items.push(item[2]);
+      } else {
+        blocks.push({ type: "list", ordered, items: [item[2]] });
+      }
+      continue;
+    }
+
+    if (line.startsWith(">")) {
+      flushParagraph();
+      const text = line.replace(/^>\s?/, "");
+      const previous = blocks[blocks.length - 1];
+      if (previous?.type === "quote") {
+        previous.text += ` ${text}`;
+      } else {
+        blocks.push({ type: "quote", text });
+      }
+      continue;
+    }
+
+    paragraph.push(line.trim());
+  }
+  flushParagraph();
+  return blocks;
+}
+
+const INLINE =
+  /(`[^`]+`)|(\*\*[^*]+\*\*|__[^_]+__)|(\*[^*\s][^*]*\*|_[^_\s][^_]*_)|(\[[^\]]+\]\([^)\s]+\))/g;
+
+// Inline code, bold, italic and links; links are shown but not followed
+function renderInline(text: string): React.ReactNode[] {
+  const nodes: React.ReactNode[] = [];
+  let last = 0;
+  for (const match of text.matchAll(INLINE)) {
+    const index = match.index ?? 0;
+    if (index > last) nodes.push(text.slice(last, index));
+    const [token, code, bold, italic] = match;
+    if (code) {
+      nodes.push(
+        <code key={index} style={inlineCodeStyle}>
+          {code.slice(1, -1)}
+        </code>,
+      );
+    } else if (bold) {
+      nodes.push(<strong key={index}>{bold.slice(2, -2)}</strong>);
+    } else if (italic) {
+      nodes.push(<em key={index}>{italic.slice(1, -1)}</em>);
+    } else {
+      const [, label, url] = token.match(/^\[([^\]]+)\]\(([^)]+)\)$/) || [];
+      nodes.push(
+        <span key={index} title={url} style={{ textDecoration: "underline" }}>
+          {label}
+        </span>,
+      );
+    }
+    last = index + token.length;
+  }
+  if (last < text.length) nodes.push(text.slice(last));
+  return nodes;
+}
+
+const inlineCodeStyle: React.CSSProperties = {
+  fontFamily: "monospace",
+  backgroundColor: "rgba(255, 255, 255, 0.12)",
+  borderRadius: "3px",
+  padding: "0 3px",
+};
+
+const CodeBlock: React.FC<{ language: string; code: string }> = ({
+  language,
+  code,
+}) => {
+  const [copied, setCopied] = useState<boolean>(false);
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(code);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div style={{ position: "relative", margin: "6px 0" }}>
+      <button
+        onClick={copy}
+        style={{
+          position: "absolute",
+          top: "4px",
+          right: "4px",
+          fontSize: "11px",
+        }}
+      >
+        {copied ? "Copied" : "Copy"}
+      </button>
+      <pre
+        style={{
+          margin: 0,
+          padding: "8px",
+          paddingTop: language ? "20px" : "8px",
+          backgroundColor: "rgba(0, 0, 0, 0.35)",
+          borderRadius: "4px",
+          overflowX: "auto",
+          fontSize: "12px",
+        }}
+      >
+        {language && (
+          <span
+            style={{
+              position: "absolute",
+              top: "4px",
+              left: "8px",
+              fontSize: "10px",
+              opacity: 0.6,
+            }}
+          >
+            {language}
+          </span>
+        )}
+        <code>{code}</code>
+      </pre>
+    </div>
+  );
+};
+
+const Markdown: React.FC<{ text: string }> = ({ text }) => (
+  <>
+    {parseMarkdown(text).map((block, index) => {
+      switch (block.type) {
+        case "code":
+          return (
+            <CodeBlock
+              key={index}
+              language={block.language}
+              code={block.code}
+            />
+          );
+        case "heading":
+          return (
+            <div
+              key={index}
+              style={{
+                fontWeight: 600,
+                fontSize: `${Math.max(16 - block.level, 12)}px`,
+                margin: "8px 0 4px",
+              }}
+            >
+              {renderInline(block.text)}
+            </div>
+          );
+        case "list": {
+          const List = block.ordered ? "ol" : "ul";
+          return (
+            <List key={index} style={{ margin: "4px 0", paddingLeft: "20px" }}>
+              {block.items.map((item, itemIndex) => (
+                <li key={itemIndex}>{renderInline(item)}</li>
+              ))}
+            </List>
+          );
+        }
+        case "quote":
+          return (
+            <blockquote
+              key={index}
+              style={{
+                margin: "4px 0",
+                paddingLeft: "8px",
+                borderLeft: "3px solid rgba(255, 255, 255, 0.3)",
+                opacity: 0.85,
+              }}
+            >
+              {renderInline(block.text)}
+            </blockquote>
+          );
+        case "rule":
+          return (
+            <hr
+              key={index}
+              style={{ border: 0, borderTop: "1px solid #555" }}
+            />
+          );
+        default:
+          return (
+            <p key={index} style={{ margin: "4px 0" }}>
+              {renderInline(block.text)}
+            </p>
+          );
+      }
+    })}
+  </>
+);
+
+export default Markdown;
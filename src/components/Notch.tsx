@@ -1,23 +1,83 @@
 // components/Notch
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { svgMap, blurVariants } from "../lib";
+import AnswerPanel from "./AnswerPanel";
+import type {
+  PipelineStatus,
+  MicrophoneStatus,
+  PipelineStatusEvent,
+  WakeWordState,
+} from "../types/electron-api";
 
 type NotchState =
   | "inactive"
   | "dormant"
   | "prompted"
   | "thinking"
-  | "answering";
+  | "answering"
+  | "error";
+
+// How each stage of the dictation pipeline is shown
+const pipelineStates: Record<PipelineStatus, NotchState> = {
+  idle: "dormant",
+  recording: "prompted",
+  transcribing: "thinking",
+  agent: "thinking",
+  answering: "answering",
+  error: "error",
+};
 
 const NotchComponent: React.FC<{
   onChange?: (state: NotchState) => void;
 }> = ({ onChange }) => {
   const [currentState, setCurrentState] = useState<NotchState>("dormant");
+  const [targetState, setTargetState] = useState<NotchState>("dormant");
   const [isMorphing, setIsMorphing] = useState<boolean>(false);
+  const [transcript, setTranscript] = useState<string>("");
+  const [language, setLanguage] = useState<string | undefined>(); // Detected, or "en" when translated
+  const [message, setMessage] = useState<string | undefined>();
+  const [wakeWord, setWakeWord] = useState<WakeWordState | null>(null);
+  const [microphone, setMicrophone] = useState<MicrophoneStatus | null>(null);
 
   useEffect(() => onChange?.(currentState), [currentState, onChange]);
 
+  // Warn about a silent microphone while recording
+  useEffect(() => {
+    window.electronAPI.getMicrophoneStatus().then(setMicrophone);
+    return window.electronAPI.onMicrophoneStatus(setMicrophone);
+  }, []);
+
+  // Whether the microphone is being watched for the wake phrase
+  useEffect(() => {
+    window.electronAPI.getWakeWordState().then(setWakeWord);
+    return window.electronAPI.onWakeWordState(setWakeWord);
+  }, []);
+
+  // Follow the pipeline, a new recording starts with an empty transcript
+  useEffect(() => {
+    const apply = ({ status, message }: PipelineStatusEvent) => {
+      if (status === "recording") {
+        setTranscript("");
+        setLanguage(undefined);
+      }
+      setMessage(message);
+      setTargetState(pipelineStates[status]);
+    };
+    window.electronAPI.getPipelineStatus().then(apply);
+    return window.electronAPI.onPipelineStatus(apply);
+  }, []);
+
+  // Show the transcript as it grows while recording, the final pass replaces it
+  useEffect(
+    () =>
+      window.electronAPI.onTranscriptionResult((result) => {
+        setTranscript(result.text);
+        setLanguage(result.translated ? "en" : result.language);
+      }),
+    [],
+  );
+
   const morphState = (newState: NotchState) => {
     if (currentState !== newState && !isMorphing) {
       setIsMorphing(true);
@@ -29,10 +89,40 @@ const NotchComponent: React.FC<{
     }
   };
 
-  return  <div>
-    {/* The notch container */}
+  // Changes that arrive mid-morph are picked up once the morph finishes
+  useEffect(() => {
+    if (targetState !== currentState && !isMorphing) morphState(targetState);
+  }, [targetState, currentState, isMorphing]);
+
+  // Grow the overlay window to fit the content, e.g. a long answer
+  const rootRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const root = rootRef.current;
+    if (!root) return;
+    const observer = new ResizeObserver(() => {
+      // The body padding surrounds the content inside the window
+      const body = getComputedStyle(document.body);
+      const rect = root.getBoundingClientRect();
+      const paddingX = parseFloat(body.paddingLeft) + parseFloat(body.paddingRight);
+      const paddingY = parseFloat(body.paddingTop) + parseFloat(body.paddingBottom);
+      window.electronAPI.resizeOverlay(
+        Math.ceil(rect.width + paddingX),
+        Math.ceil(rect.height + paddingY),
+      );
+    });
+    observer.observe(root);
+    return () => observer.disconnect();
+  }, []);
+
+  const showAnswer = currentState === "answering" && !!message;
+  const caption = showAnswer ? "" : message || transcript;
+  const languageTag = !message && language ? language : "";
+
+  return  <div ref={rootRef} style={{ width: "fit-content" }}>
+    {/* The notch container, also the handle for dragging the overlay around */}
     <div
       style={{
+        WebkitAppRegion: "drag",
         width: "100px",
         height: "100px",
         backgroundColor: "#232323",
@@ -43,7 +133,7 @@ const NotchComponent: React.FC<{
         alignItems: "center",
         position: "relative",
         overflow: "hidden",
-      }}
+      } as React.CSSProperties}
     >
       {/* The SVG with animation */}
       <AnimatePresence mode="wait">
@@ -67,6 +157,88 @@ const NotchComponent: React.FC<{
         </motion.div>
       </AnimatePresence>
     </div>
+
+    {/* The agent's answer, rendered as markdown */}
+    {showAnswer && <AnswerPanel answer={message} />}
+
+    {/* The live transcript or the error, clipped to its most recent lines */}
+    {caption && (
+      <div
+        style={{
+          marginTop: "8px",
+          maxWidth: "260px",
+          maxHeight: "50px",
+          padding: "4px 8px",
+          color: "white",
+          backgroundColor: currentState === "error" ? "#c0392b" : "#232323",
+          borderRadius: "6px",
+          fontSize: "12px",
+          lineHeight: 1.4,
+          overflow: "hidden",
+          display: "flex",
+          flexDirection: "column-reverse",
+        }}
+      >
+        <div>
+          {languageTag && (
+            <span style={{ opacity: 0.6, textTransform: "uppercase" }}>
+              {languageTag}{" "}
+            </span>
+          )}
+          {caption}
+        </div>
+      </div>
+    )}
+
+    {/* The microphone has only delivered silence since recording started */}
+    {microphone?.silent && currentState === "prompted" && (
+      <div
+        style={{
+          marginTop: "8px",
+          maxWidth: "260px",
+          padding: "4px 8px",
+          color: "white",
+          backgroundColor: "#b9770e",
+          borderRadius: "6px",
+          fontSize: "12px",
+        }}
+      >
+        No sound from {microphone.label}. Is it muted?
+      </div>
+    )}
+
+    {/* Always visible while the wake word is enabled, click to pause or resume */}
+    {wakeWord?.enabled && (
+      <button
+        onClick={() => window.electronAPI.setWakeWordPaused(!wakeWord.paused)}
+        title={wakeWord.paused ? "Resume listening" : "Pause listening"}
+        style={{
+          marginTop: "8px",
+          display: "flex",
+          alignItems: "center",
+          gap: "6px",
+          padding: "3px 8px",
+          color: "white",
+          backgroundColor: "#232323",
+          border: "1px solid rgba(255, 255, 255, 0.1)",
+          borderRadius: "10px",
+          fontSize: "11px",
+          cursor: "pointer",
+        }}
+      >
+        <span
+          style={{
+            width: "8px",
+            height: "8px",
+            borderRadius: "50%",
+            backgroundColor: wakeWord.paused ? "#777" : "#e74c3c",
+          }}
+        />
+        {wakeWord.paused
+          ? "Wake word paused"
+          : `Listening for "${wakeWord.phrase}"`}
+      </button>
+    )}
   </div>;
 };
 
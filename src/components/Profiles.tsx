@@ -0,0 +1,131 @@
+// components/Profiles
+// Editor for the per-application dictation profiles in the settings window
+import { CLEANUP_STYLE_LABELS, CLEANUP_STYLES } from "../lib/config";
+import type {
+  DictationProfile,
+  InsertionStrategyName,
+  VocabularyProfile,
+} from "../lib/config";
+import { SelectField, TextField } from "./Fields";
+
+// A short unique id derived from the name, recorded in the history
+function createProfileId(name: string, profiles: DictationProfile[]) {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, "-") || "profile";
+  let id = base;
+  for (let n = 2; profiles.some((profile) => profile.id === id); n++) {
+    id = `${base}-${n}`;
+  }
+  return id;
+}
+
+const Profiles: React.FC<{
+  profiles: DictationProfile[];
+  vocabularies: VocabularyProfile[];
+  insertionOptions: { value: InsertionStrategyName; label: string }[];
+  onChange: (profiles: DictationProfile[]) => void;
+}> = ({ profiles, vocabularies, insertionOptions, onChange }) => {
+  const updateProfile = (id: string, values: Partial<DictationProfile>) =>
+    onChange(
+      profiles.map((profile) =>
+        profile.id === id ? { ...profile, ...values } : profile,
+      ),
+    );
+
+  const addProfile = () =>
+    onChange([
+      ...profiles,
+      {
+        id: createProfileId("Application", profiles),
+        name: "Application",
+        appPattern: "",
+        titlePattern: "",
+      },
+    ]);
+
+  return (
+    <>
+      {profiles.map((profile) => (
+        <div
+          key={profile.id}
+          style={{ borderTop: "1px solid #eee", padding: "6px 0" }}
+        >
+          <TextField
+            label="Name"
+            value={profile.name}
+            hint={`Id: ${profile.id}`}
+            onChange={(name) => updateProfile(profile.id, { name })}
+          />
+          <TextField
+            label="Application"
+            value={profile.appPattern}
+            placeholder="e.g. code|jetbrains"
+            hint="Regular expression for the window class, any case"
+            onChange={(appPattern) => updateProfile(profile.id, { appPattern })}
+          />
+          <TextField
+            label="Window title"
+            value={profile.titlePattern}
+            placeholder="Any title"
+            hint="Regular expression for the window title, any case"
+            onChange={(titlePattern) =>
+              updateProfile(profile.id, { titlePattern })
+            }
+          />
+          <SelectField
+            label="Insertion"
+            value={profile.insertionStrategy || ""}
+            options={[{ value: "", label: "Default" }, ...insertionOptions]}
+            onChange={(strategy) =>
+              updateProfile(profile.id, {
+                insertionStrategy: strategy || undefined,
+              })
+            }
+          />
+          <SelectField
+            label="Cleanup"
+            value={profile.cleanupStyle || ""}
+            options={[
+              { value: "", label: "Default" },
+              ...CLEANUP_STYLES.map((style) => ({
+                value: style,
+                label: CLEANUP_STYLE_LABELS[style],
+              })),
+            ]}
+            onChange={(style) =>
+              updateProfile(profile.id, { cleanupStyle: style || undefined })
+            }
+          />
+          <SelectField
+            label="Vocabulary"
+            value={profile.vocabularyProfile || ""}
+            options={[
+              { value: "", label: "Default" },
+              ...vocabularies.map(({ id, name }) => ({
+                value: id,
+                label: name,
+              })),
+            ]}
+            onChange={(vocabularyProfile) =>
+              updateProfile(profile.id, {
+                vocabularyProfile: vocabularyProfile || undefined,
+              })
+            }
+          />
+          <button
+            style={{ fontSize: "12px" }}
+            onClick={() =>
+              onChange(profiles.filter((other) => other.id !== profile.id))
+            }
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+      <button style={{ fontSize: "12px" }} onClick={addProfile}>
+        Add profile
+      </button>
+    </>
+  );
+};
+
+export default Profiles;
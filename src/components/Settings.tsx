@@ -0,0 +1,800 @@
+// components/Settings
+import { useState, useEffect } from "react";
+import { CLEANUP_STYLE_LABELS, CLEANUP_STYLES } from "../lib/config";
+import type {
+  CleanupStyle,
+  InsertionStrategyName,
+  ShortcutAction,
+  ShortcutBinding,
+  ShortcutMode,
+  SpeechEngineName,
+  TranscriptionProviderName,
+  UploadFormat,
+} from "../lib/config";
+import type { WindowAnchor } from "../lib/placement";
+import type { Settings, SettingsPatch } from "../lib/settings";
+import type { ShortcutStatus } from "../lib/shortcuts";
+import type { MicrophoneStatus } from "../types/electron-api";
+import AgentBackends from "./AgentBackends";
+import Profiles from "./Profiles";
+import SpokenCommands from "./SpokenCommands";
+import Vocabulary from "./Vocabulary";
+import {
+  CheckboxField,
+  getErrorMessage,
+  NumberField,
+  Section,
+  SelectField,
+  TextField,
+} from "./Fields";
+
+const PROVIDER_OPTIONS: { value: TranscriptionProviderName; label: string }[] =
+  [
+    { value: "groq", label: "Groq" },
+    { value: "openai", label: "OpenAI-compatible endpoint" },
+    { value: "whisper-cpp", label: "whisper.cpp (offline)" },
+    { value: "local", label: "Custom command" },
+  ];
+
+const INSERTION_OPTIONS: { value: InsertionStrategyName; label: string }[] = [
+  { value: "clipboard-paste", label: "Paste (restores clipboard)" },
+  { value: "xdotool", label: "Type with xdotool (X11)" },
+  { value: "ydotool", label: "Type with ydotool (Wayland)" },
+  { value: "clipboard", label: "Copy to clipboard only" },
+];
+
+// Agent shortcuts are listed separately, there can be one per backend
+const SHORTCUT_LABELS: Record<Exclude<ShortcutAction, "ask-agent">, string> = {
+  "toggle-dictation": "Start / stop dictation",
+  "cancel-dictation": "Cancel dictation",
+  "reinsert-last": "Re-insert last transcript",
+  "insert-raw": "Insert last transcript without cleanup",
+  "translate-dictation": "Dictate in any language, insert in English",
+};
+
+const SPEECH_ENGINE_OPTIONS: { value: SpeechEngineName; label: string }[] = [
+  { value: "system", label: "System voices" },
+  { value: "piper", label: "piper (offline)" },
+];
+
+const UPLOAD_FORMAT_OPTIONS: { value: UploadFormat; label: string }[] = [
+  { value: "opus", label: "Opus (smallest, WAV where unsupported)" },
+  { value: "wav", label: "WAV" },
+];
+
+const CLEANUP_STYLE_OPTIONS: { value: CleanupStyle; label: string }[] =
+  CLEANUP_STYLES.map((style) => ({
+    value: style,
+    label: CLEANUP_STYLE_LABELS[style],
+  }));
+
+const ANCHOR_OPTIONS: { value: WindowAnchor; label: string }[] = [
+  { value: "top-center", label: "Top centre (notch)" },
+  { value: "top-left", label: "Top left" },
+  { value: "top-right", label: "Top right" },
+  { value: "bottom-left", label: "Bottom left" },
+  { value: "bottom-right", label: "Bottom right" },
+  { value: "free", label: "Where I drag it" },
+];
+
+const MODE_OPTIONS: { value: ShortcutMode; label: string }[] = [
+  { value: "toggle", label: "Press to start and stop" },
+  { value: "push-to-talk", label: "Hold to talk" },
+];
+
+// Actions that record audio and can therefore be used push-to-talk
+const RECORDING_ACTIONS: ShortcutAction[] = [
+  "toggle-dictation",
+  "translate-dictation",
+  "ask-agent",
+];
+
+const SettingsComponent: React.FC = () => {
+  const [settings, setSettings] = useState<Settings | null>(null);
+  const [shortcutStatus, setShortcutStatus] = useState<ShortcutStatus[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [voices, setVoices] = useState<string[]>([]);
+  const [microphones, setMicrophones] = useState<MediaDeviceInfo[]>([]);
+  const [microphoneStatus, setMicrophoneStatus] =
+    useState<MicrophoneStatus | null>(null);
+
+  useEffect(() => {
+    window.electronAPI.getSettings().then(setSettings);
+    window.electronAPI.getShortcutStatus().then(setShortcutStatus);
+  }, []);
+
+  // Keep the microphone list current as devices are plugged in and out
+  useEffect(() => {
+    const loadMicrophones = () =>
+      navigator.mediaDevices
+        .enumerateDevices()
+        .then((devices) =>
+          setMicrophones(
+            devices.filter(
+              (device) =>
+                device.kind === "audioinput" && device.deviceId !== "default",
+            ),
+          ),
+        );
+    loadMicrophones();
+    navigator.mediaDevices.addEventListener("devicechange", loadMicrophones);
+    window.electronAPI.getMicrophoneStatus().then(setMicrophoneStatus);
+    const unsubscribe =
+      window.electronAPI.onMicrophoneStatus(setMicrophoneStatus);
+    return () => {
+      navigator.mediaDevices.removeEventListener(
+        "devicechange",
+        loadMicrophones,
+      );
+      unsubscribe();
+    };
+  }, []);
+
+  // Chromium loads the system voices asynchronously
+  useEffect(() => {
+    const loadVoices = () =>
+      setVoices(window.speechSynthesis.getVoices().map((voice) => voice.name));
+    loadVoices();
+    window.speechSynthesis.addEventListener("voiceschanged", loadVoices);
+    return () =>
+      window.speechSynthesis.removeEventListener("voiceschanged", loadVoices);
+  }, []);
+
+  if (!settings) {
+    return <p>Loading settings…</p>;
+  }
+
+  // Edit one section of the draft, saved together with the others on Save
+  const update = <S extends keyof SettingsPatch>(
+    section: S,
+    values: Partial<Settings[S]>,
+  ) => {
+    setSettings({
+      ...settings,
+      [section]: { ...settings[section], ...values },
+    });
+    setMessage(null);
+  };
+
+  const getBinding = (action: ShortcutAction): ShortcutBinding =>
+    settings.shortcuts.bindings.find(
+      (binding) => binding.action === action,
+    ) || {
+      action,
+      accelerator: "",
+      mode: "toggle",
+    };
+
+  // An empty accelerator removes the binding
+  const updateBinding = (
+    action: ShortcutAction,
+    values: Partial<ShortcutBinding>,
+  ) => {
+    const binding = { ...getBinding(action), ...values };
+    const others = settings.shortcuts.bindings.filter(
+      (existing) => existing.action !== action,
+    );
+    update("shortcuts", {
+      bindings: binding.accelerator ? [...others, binding] : others,
+    });
+  };
+
+  const agentBindings = settings.shortcuts.bindings.filter(
+    (binding) => binding.action === "ask-agent",
+  );
+
+  // Agent bindings are edited by position as several can share the action
+  const updateAgentBindings = (agentBindings: ShortcutBinding[]) => {
+    const others = settings.shortcuts.bindings.filter(
+      (binding) => binding.action !== "ask-agent",
+    );
+    update("shortcuts", { bindings: [...others, ...agentBindings] });
+  };
+
+  const updateAgentBinding = (
+    index: number,
+    values: Partial<ShortcutBinding>,
+  ) =>
+    updateAgentBindings(
+      agentBindings.map((binding, position) =>
+        position === index ? { ...binding, ...values } : binding,
+      ),
+    );
+
+  const getStatus = (binding: ShortcutBinding) =>
+    shortcutStatus.find(
+      (entry) =>
+        entry.action === binding.action &&
+        entry.accelerator === binding.accelerator,
+    );
+
+  const save = async () => {
+    try {
+      // Agent shortcuts added but never given keys are dropped
+      const bindings = settings.shortcuts.bindings.filter(
+        (binding) => binding.accelerator !== "",
+      );
+      const patch: SettingsPatch & { version?: number } = {
+        ...settings,
+        shortcuts: { ...settings.shortcuts, bindings },
+      };
+      delete patch.version; // The store sets it, a patch only carries sections
+      setSettings(await window.electronAPI.updateSettings(patch));
+      setShortcutStatus(await window.electronAPI.getShortcutStatus());
+      setMessage("Settings saved.");
+    } catch (error) {
+      setMessage(getErrorMessage(error));
+    }
+  };
+
+  const {
+    transcription,
+    insertion,
+    recording,
+    history,
+    agent,
+    speech,
+    wakeWord,
+    general,
+    vocabulary,
+    commands,
+    cleanup,
+    profiles,
+  } = settings;
+
+  return (
+    <div>
+      <h2 style={{ marginTop: 0 }}>Settings</h2>
+
+      <Section title="Transcription">
+        <SelectField
+          label="Provider"
+          value={transcription.provider}
+          options={PROVIDER_OPTIONS}
+          onChange={(provider) => update("transcription", { provider })}
+        />
+        {transcription.provider !== "whisper-cpp" && (
+          <TextField
+            label="Model"
+            value={transcription.model}
+            onChange={(model) => update("transcription", { model })}
+          />
+        )}
+        {(transcription.provider === "groq" ||
+          transcription.provider === "openai") && (
+          <TextField
+            label="API key"
+            type="password"
+            value={transcription.apiKey}
+            placeholder="From .env when empty"
+            onChange={(apiKey) => update("transcription", { apiKey })}
+          />
+        )}
+        {transcription.provider === "openai" && (
+          <TextField
+            label="Base URL"
+            value={transcription.baseUrl}
+            placeholder="http://localhost:8000/v1"
+            onChange={(baseUrl) => update("transcription", { baseUrl })}
+          />
+        )}
+        {(transcription.provider === "local" ||
+          transcription.provider === "whisper-cpp") && (
+          <TextField
+            label="Executable"
+            value={transcription.command}
+            placeholder={
+              transcription.provider === "whisper-cpp"
+                ? "Bundled whisper-cli"
+                : ""
+            }
+            onChange={(command) => update("transcription", { command })}
+          />
+        )}
+        {transcription.provider === "local" && (
+          <TextField
+            label="Arguments"
+            value={transcription.args.join(" ")}
+            hint="{file} is replaced with the recording, {model} with the model, {language} and {prompt} with the language and vocabulary; arguments left empty are dropped"
+            onChange={(args) =>
+              update("transcription", { args: args.split(" ") })
+            }
+          />
+        )}
+        {transcription.provider === "whisper-cpp" && (
+          <>
+            <TextField
+              label="Model file"
+              value={transcription.modelPath}
+              placeholder="ggml-base.en.bin"
+              onChange={(modelPath) => update("transcription", { modelPath })}
+            />
+            <NumberField
+              label="Threads"
+              value={transcription.threads}
+              onChange={(threads) => update("transcription", { threads })}
+            />
+            <TextField
+              label="ffmpeg"
+              value={transcription.ffmpegPath}
+              placeholder="Bundled ffmpeg"
+              onChange={(ffmpegPath) => update("transcription", { ffmpegPath })}
+            />
+          </>
+        )}
+        <TextField
+          label="Language"
+          value={transcription.language}
+          placeholder="Detect automatically"
+          hint="ISO-639-1 code such as en, de or ja"
+          onChange={(language) =>
+            update("transcription", { language: language || undefined })
+          }
+        />
+        <NumberField
+          label="Split recordings longer than (seconds)"
+          value={transcription.segmentSeconds}
+          onChange={(segmentSeconds) =>
+            update("transcription", { segmentSeconds })
+          }
+        />
+        <NumberField
+          label="Parts transcribed at once"
+          value={transcription.segmentConcurrency}
+          onChange={(segmentConcurrency) =>
+            update("transcription", { segmentConcurrency })
+          }
+        />
+      </Section>
+
+      <Section title="Vocabulary">
+        <Vocabulary
+          vocabulary={vocabulary}
+          onChange={(vocabulary) => update("vocabulary", vocabulary)}
+        />
+      </Section>
+
+      <Section title="Spoken commands">
+        <SpokenCommands
+          commands={commands}
+          onChange={(commands) => update("commands", commands)}
+        />
+      </Section>
+
+      <Section title="Cleanup">
+        <SelectField
+          label="Style"
+          value={cleanup.style}
+          hint="A chat model rewrites dictations in this style, the original is kept in the history"
+          options={CLEANUP_STYLE_OPTIONS}
+          onChange={(style) => update("cleanup", { style })}
+        />
+        {cleanup.style !== "verbatim" && (
+          <>
+            <TextField
+              label="Model"
+              value={cleanup.model}
+              onChange={(model) => update("cleanup", { model })}
+            />
+            <TextField
+              label="Base URL"
+              value={cleanup.baseUrl}
+              placeholder="Groq when empty"
+              onChange={(baseUrl) => update("cleanup", { baseUrl })}
+            />
+            <TextField
+              label="API key"
+              type="password"
+              value={cleanup.apiKey}
+              placeholder="From .env when empty"
+              onChange={(apiKey) => update("cleanup", { apiKey })}
+            />
+            <NumberField
+              label="Give up after (ms)"
+              value={cleanup.timeoutMs}
+              hint="The transcript is inserted as it is when the model is slower"
+              onChange={(timeoutMs) => update("cleanup", { timeoutMs })}
+            />
+          </>
+        )}
+      </Section>
+
+      <Section title="Application profiles">
+        <CheckboxField
+          label="Adapt to the focused application"
+          checked={profiles.enabled}
+          hint="Shortcut dictations use the first profile matching the window that has focus (X11 only)"
+          onChange={(enabled) => update("profiles", { enabled })}
+        />
+        {profiles.enabled && (
+          <Profiles
+            profiles={profiles.profiles}
+            vocabularies={vocabulary.profiles}
+            insertionOptions={INSERTION_OPTIONS}
+            onChange={(list) => update("profiles", { profiles: list })}
+          />
+        )}
+      </Section>
+
+      <Section title="Recording">
+        <SelectField
+          label="Microphone"
+          value={recording.inputDeviceId || ""}
+          options={[
+            { value: "", label: "System default" },
+            ...microphones.map((device) => ({
+              value: device.deviceId,
+              label: device.label || device.deviceId,
+            })),
+            // Keep a saved microphone selectable while it is unplugged
+            ...(recording.inputDeviceId &&
+            !microphones.some(
+              (device) => device.deviceId === recording.inputDeviceId,
+            )
+              ? [
+                  {
+                    value: recording.inputDeviceId,
+                    label: `${recording.inputDeviceLabel || "Saved microphone"} (not connected)`,
+                  },
+                ]
+              : []),
+          ]}
+          onChange={(deviceId) =>
+            update("recording", {
+              inputDeviceId: deviceId || undefined,
+              inputDeviceLabel: microphones.find(
+                (device) => device.deviceId === deviceId,
+              )?.label,
+            })
+          }
+        />
+        {microphoneStatus && (
+          <p style={{ fontSize: "12px", margin: "0 0 6px", color: "#777" }}>
+            Recording from {microphoneStatus.label}
+            {microphoneStatus.fallback &&
+              ", the chosen microphone is not connected"}
+            {microphoneStatus.silent && " (no sound is coming in)"}
+          </p>
+        )}
+        <CheckboxField
+          label="Clean up audio before upload (16 kHz mono, level, trim silence)"
+          checked={recording.preprocess}
+          onChange={(preprocess) => update("recording", { preprocess })}
+        />
+        {recording.preprocess && (
+          <SelectField
+            label="Upload format"
+            value={recording.uploadFormat}
+            options={UPLOAD_FORMAT_OPTIONS}
+            onChange={(uploadFormat) => update("recording", { uploadFormat })}
+          />
+        )}
+        <CheckboxField
+          label="Hands-free (stop on silence)"
+          checked={recording.handsFree}
+          onChange={(handsFree) => update("recording", { handsFree })}
+        />
+        <NumberField
+          label="Speech level threshold (0-255)"
+          value={recording.silenceThreshold}
+          onChange={(silenceThreshold) =>
+            update("recording", { silenceThreshold })
+          }
+        />
+        <NumberField
+          label="Stop after silence (ms)"
+          value={recording.silenceDurationMs}
+          onChange={(silenceDurationMs) =>
+            update("recording", { silenceDurationMs })
+          }
+        />
+        <NumberField
+          label="Minimum speech (ms)"
+          value={recording.minSpeechMs}
+          onChange={(minSpeechMs) => update("recording", { minSpeechMs })}
+        />
+        <NumberField
+          label="Wait for speech (ms)"
+          value={recording.maxWaitMs}
+          onChange={(maxWaitMs) => update("recording", { maxWaitMs })}
+        />
+        <NumberField
+          label="Minimum recording duration (ms)"
+          value={recording.minRecordingDurationMs}
+          onChange={(minRecordingDurationMs) =>
+            update("recording", { minRecordingDurationMs })
+          }
+        />
+      </Section>
+
+      <Section title="Text insertion">
+        <SelectField
+          label="Strategy"
+          value={insertion.strategy}
+          options={INSERTION_OPTIONS}
+          onChange={(strategy) => update("insertion", { strategy })}
+        />
+        <NumberField
+          label="Clipboard restore delay (ms)"
+          value={insertion.restoreDelayMs}
+          onChange={(restoreDelayMs) => update("insertion", { restoreDelayMs })}
+        />
+      </Section>
+
+      <Section title="Shortcuts">
+        {(Object.keys(SHORTCUT_LABELS) as (keyof typeof SHORTCUT_LABELS)[]).map(
+          (action) => {
+            const binding = getBinding(action);
+            const status = getStatus(binding);
+            return (
+              <div key={action}>
+                <TextField
+                  label={SHORTCUT_LABELS[action]}
+                  value={binding.accelerator}
+                  placeholder="Not set"
+                  hint="Electron accelerator, e.g. CommandOrControl+Shift+X"
+                  onChange={(accelerator) =>
+                    updateBinding(action, { accelerator })
+                  }
+                />
+                {RECORDING_ACTIONS.includes(action) && binding.accelerator && (
+                  <SelectField
+                    label="Mode"
+                    value={binding.mode}
+                    options={MODE_OPTIONS}
+                    onChange={(mode) => updateBinding(action, { mode })}
+                  />
+                )}
+                {status && !status.registered && (
+                  <p style={{ color: "#c0392b", fontSize: "12px", margin: 0 }}>
+                    {status.error}
+                  </p>
+                )}
+              </div>
+            );
+          },
+        )}
+
+        {agentBindings.map((binding, index) => {
+          const status = getStatus(binding);
+          return (
+            <div key={index}>
+              <TextField
+                label="Ask an agent"
+                value={binding.accelerator}
+                placeholder="Not set"
+                hint="Electron accelerator, e.g. CommandOrControl+Shift+A"
+                onChange={(accelerator) =>
+                  updateAgentBinding(index, { accelerator })
+                }
+              />
+              <SelectField
+                label="Agent"
+                value={binding.agentBackend || ""}
+                options={[
+                  { value: "", label: "Default agent" },
+                  ...agent.backends.map((backend) => ({
+                    value: backend.id,
+                    label: backend.name,
+                  })),
+                ]}
+                onChange={(agentBackend) =>
+                  updateAgentBinding(index, {
+                    agentBackend: agentBackend || undefined,
+                  })
+                }
+              />
+              <SelectField
+                label="Mode"
+                value={binding.mode}
+                options={MODE_OPTIONS}
+                onChange={(mode) => updateAgentBinding(index, { mode })}
+              />
+              {status && !status.registered && (
+                <p style={{ color: "#c0392b", fontSize: "12px", margin: 0 }}>
+                  {status.error}
+                </p>
+              )}
+              <button
+                style={{ fontSize: "12px" }}
+                onClick={() =>
+                  updateAgentBindings(
+                    agentBindings.filter((_, position) => position !== index),
+                  )
+                }
+              >
+                Remove
+              </button>
+            </div>
+          );
+        })}
+        <button
+          style={{ fontSize: "12px" }}
+          onClick={() =>
+            updateAgentBindings([
+              ...agentBindings,
+              { action: "ask-agent", accelerator: "", mode: "toggle" },
+            ])
+          }
+        >
+          Add agent shortcut
+        </button>
+      </Section>
+
+      <Section title="Agent">
+        <SelectField
+          label="Default agent"
+          value={agent.defaultBackend}
+          options={agent.backends.map((backend) => ({
+            value: backend.id,
+            label: backend.name,
+          }))}
+          onChange={(defaultBackend) => update("agent", { defaultBackend })}
+        />
+        <NumberField
+          label="Stop runs after (ms, 0 = never)"
+          value={agent.timeoutMs}
+          onChange={(timeoutMs) => update("agent", { timeoutMs })}
+        />
+        <AgentBackends
+          backends={agent.backends}
+          onChange={(backends) => update("agent", { backends })}
+        />
+      </Section>
+
+      <Section title="Wake word">
+        <CheckboxField
+          label="Listen for a wake phrase"
+          checked={wakeWord.enabled}
+          hint="Clips are checked with the local whisper.cpp model, no audio leaves this computer before the phrase is heard"
+          onChange={(enabled) => update("wakeWord", { enabled })}
+        />
+        <TextField
+          label="Phrase"
+          value={wakeWord.phrase}
+          onChange={(phrase) => update("wakeWord", { phrase })}
+        />
+        <SelectField
+          label="Then"
+          value={wakeWord.target}
+          options={[
+            { value: "insert", label: "Dictate into the focused app" },
+            { value: "agent", label: "Ask the default agent" },
+          ]}
+          onChange={(target) => update("wakeWord", { target })}
+        />
+        <TextField
+          label="Model file"
+          value={wakeWord.modelPath}
+          placeholder="Transcription model when empty"
+          hint="A tiny whisper.cpp model such as ggml-tiny.en.bin keeps listening light"
+          onChange={(modelPath) => update("wakeWord", { modelPath })}
+        />
+        <NumberField
+          label="Speech level threshold (0-255)"
+          value={wakeWord.threshold}
+          onChange={(threshold) => update("wakeWord", { threshold })}
+        />
+      </Section>
+
+      <Section title="Spoken answers">
+        <CheckboxField
+          label="Read agent answers aloud"
+          checked={speech.enabled}
+          onChange={(enabled) => update("speech", { enabled })}
+        />
+        <SelectField
+          label="Engine"
+          value={speech.engine}
+          options={SPEECH_ENGINE_OPTIONS}
+          onChange={(engine) => update("speech", { engine })}
+        />
+        {speech.engine === "system" && (
+          <SelectField
+            label="Voice"
+            value={speech.voice || ""}
+            options={[
+              { value: "", label: "Default voice" },
+              ...voices.map((voice) => ({ value: voice, label: voice })),
+            ]}
+            onChange={(voice) =>
+              update("speech", { voice: voice || undefined })
+            }
+          />
+        )}
+        {speech.engine === "piper" && (
+          <>
+            <TextField
+              label="Voice model"
+              value={speech.piperModel}
+              placeholder="en_US-lessac-medium.onnx"
+              onChange={(piperModel) => update("speech", { piperModel })}
+            />
+            <TextField
+              label="Executable"
+              value={speech.piperPath}
+              placeholder="Bundled piper"
+              onChange={(piperPath) => update("speech", { piperPath })}
+            />
+          </>
+        )}
+        <NumberField
+          label="Rate (1 = normal)"
+          value={speech.rate}
+          onChange={(rate) => update("speech", { rate })}
+        />
+        <NumberField
+          label="Maximum length (characters)"
+          value={speech.maxLength}
+          onChange={(maxLength) => update("speech", { maxLength })}
+        />
+      </Section>
+
+      <Section title="History">
+        <CheckboxField
+          label="Keep a history of dictations"
+          checked={history.enabled}
+          onChange={(enabled) => update("history", { enabled })}
+        />
+        <CheckboxField
+          label="Keep the audio of each dictation"
+          checked={history.keepAudio}
+          onChange={(keepAudio) => update("history", { keepAudio })}
+        />
+        <NumberField
+          label="Maximum entries (0 = unlimited)"
+          value={history.maxEntries}
+          onChange={(maxEntries) => update("history", { maxEntries })}
+        />
+        <NumberField
+          label="Delete after days (0 = never)"
+          value={history.maxAgeDays}
+          onChange={(maxAgeDays) => update("history", { maxAgeDays })}
+        />
+      </Section>
+
+      <Section title="General">
+        <CheckboxField
+          label="Open at login"
+          checked={general.openAtLogin}
+          onChange={(openAtLogin) => update("general", { openAtLogin })}
+        />
+        <SelectField
+          label="Overlay position"
+          value={settings.window.anchor}
+          options={ANCHOR_OPTIONS}
+          onChange={(anchor) => update("window", { anchor })}
+        />
+        {settings.window.anchor !== "free" && (
+          <CheckboxField
+            label="Show on the display with the mouse pointer"
+            checked={settings.window.followCursor}
+            onChange={(followCursor) => update("window", { followCursor })}
+          />
+        )}
+        <NumberField
+          label="Overlay width"
+          value={settings.window.width}
+          onChange={(width) => update("window", { width })}
+        />
+        <NumberField
+          label="Overlay height"
+          value={settings.window.height}
+          onChange={(height) => update("window", { height })}
+        />
+        <NumberField
+          label="Distance from screen edge"
+          value={settings.window.margin}
+          onChange={(margin) => update("window", { margin })}
+        />
+      </Section>
+
+      <div style={{ display: "flex", alignItems: "center", gap: "12px" }}>
+        <button onClick={save}>Save</button>
+        {message && <span style={{ fontSize: "13px" }}>{message}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default SettingsComponent;
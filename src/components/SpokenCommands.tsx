@@ -0,0 +1,131 @@
+// components/SpokenCommands
+// Editor for the spoken command grammar, one row per phrase
+import type { CommandAction, CommandRule, CommandsConfig } from "../lib/config";
+import { CheckboxField, TextField } from "./Fields";
+
+const ACTION_LABELS: Record<CommandAction, string> = {
+  insert: "Type",
+  "new-line": "New line",
+  "new-paragraph": "New paragraph",
+  caps: "Upper case",
+  "end-caps": "End upper case",
+  "delete-sentence": "Delete last sentence",
+};
+
+const inputStyle: React.CSSProperties = {
+  padding: "3px 5px",
+  fontSize: "12px",
+  minWidth: 0,
+};
+
+const SpokenCommands: React.FC<{
+  commands: CommandsConfig;
+  onChange: (commands: CommandsConfig) => void;
+}> = ({ commands, onChange }) => {
+  const updateRule = (index: number, values: Partial<CommandRule>) =>
+    onChange({
+      ...commands,
+      rules: commands.rules.map((rule, position) =>
+        position === index ? { ...rule, ...values } : rule,
+      ),
+    });
+
+  return (
+    <>
+      <CheckboxField
+        label="Apply spoken commands to dictation"
+        checked={commands.enabled}
+        hint='Saying "comma" types a comma, "scratch that" removes the last sentence'
+        onChange={(enabled) => onChange({ ...commands, enabled })}
+      />
+      <TextField
+        label="Escape phrase"
+        value={commands.escapePhrase}
+        hint='Types the command after it as words, e.g. "literal comma"'
+        onChange={(escapePhrase) => onChange({ ...commands, escapePhrase })}
+      />
+      {commands.enabled &&
+        commands.rules.map((rule, index) => (
+          <div
+            key={index}
+            style={{ display: "flex", gap: "6px", margin: "4px 0" }}
+          >
+            <input
+              style={{ ...inputStyle, flex: 2 }}
+              value={rule.phrase}
+              placeholder="Phrase"
+              onChange={(event) =>
+                updateRule(index, { phrase: event.target.value })
+              }
+            />
+            <select
+              style={{ ...inputStyle, flex: 2 }}
+              value={rule.action}
+              onChange={(event) =>
+                updateRule(index, {
+                  action: event.target.value as CommandAction,
+                })
+              }
+            >
+              {(Object.keys(ACTION_LABELS) as CommandAction[]).map((action) => (
+                <option key={action} value={action}>
+                  {ACTION_LABELS[action]}
+                </option>
+              ))}
+            </select>
+            <input
+              style={{ ...inputStyle, flex: 1 }}
+              value={rule.action === "insert" ? (rule.text ?? "") : ""}
+              placeholder={rule.action === "insert" ? "Text" : ""}
+              disabled={rule.action !== "insert"}
+              onChange={(event) =>
+                updateRule(index, { text: event.target.value })
+              }
+            />
+            <input
+              type="checkbox"
+              title="Only at the end of a phrase, for words also used in speech"
+              checked={!!rule.endOfPhrase}
+              onChange={(event) =>
+                updateRule(index, {
+                  endOfPhrase: event.target.checked || undefined,
+                })
+              }
+            />
+            <button
+              style={{ fontSize: "12px" }}
+              title="Remove"
+              onClick={() =>
+                onChange({
+                  ...commands,
+                  rules: commands.rules.filter(
+                    (_, position) => position !== index,
+                  ),
+                })
+              }
+            >
+              ×
+            </button>
+          </div>
+        ))}
+      {commands.enabled && (
+        <button
+          style={{ fontSize: "12px" }}
+          onClick={() =>
+            onChange({
+              ...commands,
+              rules: [
+                ...commands.rules,
+                { phrase: "", action: "insert", text: "" },
+              ],
+            })
+          }
+        >
+          Add command
+        </button>
+      )}
+    </>
+  );
+};
+
+export default SpokenCommands;
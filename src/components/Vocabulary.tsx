@@ -0,0 +1,239 @@
+// components/Vocabulary
+// Editor for vocabulary profiles: terms to bias transcription and replacements
+// applied to the transcript
+import { useState } from "react";
+import { DEFAULT_VOCABULARY_PROFILE } from "../lib/config";
+import type {
+  ReplacementRule,
+  VocabularyConfig,
+  VocabularyProfile,
+} from "../lib/config";
+import {
+  CheckboxField,
+  getErrorMessage,
+  SelectField,
+  TextField,
+} from "./Fields";
+
+// A short unique id derived from the name, referenced by the active profile setting
+function createProfileId(name: string, profiles: VocabularyProfile[]) {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, "-") || "profile";
+  let id = base;
+  for (let n = 2; profiles.some((profile) => profile.id === id); n++) {
+    id = `${base}-${n}`;
+  }
+  return id;
+}
+
+const Vocabulary: React.FC<{
+  vocabulary: VocabularyConfig;
+  onChange: (vocabulary: VocabularyConfig) => void;
+}> = ({ vocabulary, onChange }) => {
+  const { profiles } = vocabulary;
+  const [editing, setEditing] = useState(vocabulary.profile);
+  const [message, setMessage] = useState<string | null>(null);
+  const profile =
+    profiles.find(({ id }) => id === editing) ||
+    profiles.find(({ id }) => id === DEFAULT_VOCABULARY_PROFILE) ||
+    profiles[0];
+
+  const updateProfile = (values: Partial<VocabularyProfile>) =>
+    onChange({
+      ...vocabulary,
+      profiles: profiles.map((existing) =>
+        existing.id === profile.id ? { ...existing, ...values } : existing,
+      ),
+    });
+
+  const updateRule = (index: number, values: Partial<ReplacementRule>) =>
+    updateProfile({
+      replacements: profile.replacements.map((rule, position) =>
+        position === index ? { ...rule, ...values } : rule,
+      ),
+    });
+
+  const addProfile = () => {
+    const id = createProfileId("Profile", profiles);
+    onChange({
+      ...vocabulary,
+      profiles: [
+        ...profiles,
+        { id, name: "Profile", terms: [], replacements: [] },
+      ],
+    });
+    setEditing(id);
+  };
+
+  const removeProfile = () => {
+    onChange({
+      profile:
+        vocabulary.profile === profile.id
+          ? DEFAULT_VOCABULARY_PROFILE
+          : vocabulary.profile,
+      profiles: profiles.filter(({ id }) => id !== profile.id),
+    });
+    setEditing(DEFAULT_VOCABULARY_PROFILE);
+  };
+
+  // Imports are saved right away, the draft is reloaded to show them
+  const importProfiles = async () => {
+    try {
+      const result = await window.electronAPI.importVocabulary();
+      setMessage(result.message);
+      if (result.success) {
+        onChange((await window.electronAPI.getSettings()).vocabulary);
+      }
+    } catch (error) {
+      setMessage(getErrorMessage(error));
+    }
+  };
+
+  const exportProfiles = async () => {
+    try {
+      setMessage((await window.electronAPI.exportVocabulary()).message);
+    } catch (error) {
+      setMessage(getErrorMessage(error));
+    }
+  };
+
+  const profileOptions = profiles.map(({ id, name }) => ({
+    value: id,
+    label: name,
+  }));
+
+  return (
+    <>
+      <SelectField
+        label="Active profile"
+        value={vocabulary.profile}
+        hint="Used together with the default profile"
+        options={profileOptions}
+        onChange={(active) => onChange({ ...vocabulary, profile: active })}
+      />
+      <div style={{ borderTop: "1px solid #eee", padding: "6px 0" }}>
+        <SelectField
+          label="Edit profile"
+          value={profile.id}
+          options={profileOptions}
+          onChange={setEditing}
+        />
+        <TextField
+          label="Name"
+          value={profile.name}
+          hint={`Id: ${profile.id}`}
+          onChange={(name) => updateProfile({ name })}
+        />
+        <label style={{ display: "block", fontSize: "13px", margin: "6px 0" }}>
+          Terms, one per line
+          <textarea
+            style={{
+              display: "block",
+              width: "100%",
+              minHeight: "80px",
+              marginTop: "4px",
+              fontSize: "13px",
+              boxSizing: "border-box",
+            }}
+            value={profile.terms.join("\n")}
+            placeholder={"Kubernetes\nSeery\nPostgreSQL"}
+            onChange={(event) =>
+              updateProfile({ terms: event.target.value.split("\n") })
+            }
+            onBlur={() =>
+              updateProfile({
+                terms: profile.terms.map((term) => term.trim()).filter(Boolean),
+              })
+            }
+          />
+        </label>
+        {profile.replacements.map((rule, index) => (
+          <div
+            key={index}
+            style={{ borderTop: "1px dashed #eee", padding: "4px 0" }}
+          >
+            <TextField
+              label="Replace"
+              value={rule.from}
+              placeholder={rule.regex ? "Pattern" : "Word or phrase"}
+              onChange={(from) => updateRule(index, { from })}
+            />
+            <TextField
+              label="With"
+              value={rule.to}
+              hint={rule.regex ? "$1 inserts the first group" : undefined}
+              onChange={(to) => updateRule(index, { to })}
+            />
+            <CheckboxField
+              label="Match case"
+              checked={rule.caseSensitive}
+              onChange={(caseSensitive) => updateRule(index, { caseSensitive })}
+            />
+            <CheckboxField
+              label="Regular expression"
+              checked={rule.regex}
+              onChange={(regex) => updateRule(index, { regex })}
+            />
+            <button
+              style={{ fontSize: "12px" }}
+              onClick={() =>
+                updateProfile({
+                  replacements: profile.replacements.filter(
+                    (_, position) => position !== index,
+                  ),
+                })
+              }
+            >
+              Remove replacement
+            </button>
+          </div>
+        ))}
+        <div style={{ display: "flex", gap: "8px", marginTop: "6px" }}>
+          <button
+            style={{ fontSize: "12px" }}
+            onClick={() =>
+              updateProfile({
+                replacements: [
+                  ...profile.replacements,
+                  { from: "", to: "", caseSensitive: false, regex: false },
+                ],
+              })
+            }
+          >
+            Add replacement
+          </button>
+          {profile.id !== DEFAULT_VOCABULARY_PROFILE && (
+            <button style={{ fontSize: "12px" }} onClick={removeProfile}>
+              Remove profile
+            </button>
+          )}
+        </div>
+      </div>
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "8px",
+          borderTop: "1px solid #eee",
+          paddingTop: "6px",
+        }}
+      >
+        <button style={{ fontSize: "12px" }} onClick={addProfile}>
+          Add profile
+        </button>
+        <button style={{ fontSize: "12px" }} onClick={importProfiles}>
+          Import…
+        </button>
+        <button
+          style={{ fontSize: "12px" }}
+          title="Exports the saved profiles"
+          onClick={exportProfiles}
+        >
+          Export…
+        </button>
+        {message && <span style={{ fontSize: "12px" }}>{message}</span>}
+      </div>
+    </>
+  );
+};
+
+export default Vocabulary;
@@ -1,13 +1,27 @@
 import { useState, useEffect, useRef, MutableRefObject } from "react";
+import { pickRecorderMimeType } from "../lib/audio";
 
 // Define the possible states for recording
 type RecordingState = "idle" | "recording" | "stopped" | "error";
 
+interface MicrophoneRecorderOptions {
+  // Emit a chunk every `timeslice` ms while recording, for streaming transcription
+  timeslice?: number;
+  // Called with every chunk collected so far each time a new one arrives
+  onDataAvailable?: (chunks: Blob[]) => void;
+  // Microphone to open, the system default when unset
+  deviceId?: string;
+}
+
 /**
  * Custom React hook to manage microphone access and audio recording.
  * Requests permission, provides the MediaStream, and recording controls.
  */
-function useMicrophoneRecorder() {
+function useMicrophoneRecorder({
+  timeslice,
+  onDataAvailable,
+  deviceId,
+}: MicrophoneRecorderOptions = {}) {
   // State to hold the MediaStream from the microphone
   const [stream, setStream] = useState<MediaStream | null>(null);
 
@@ -24,6 +38,9 @@ function useMicrophoneRecorder() {
   // Ref to store the MediaRecorder instance across renders
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
 
+  // Ref mirroring the collected chunks, readable from the recorder callbacks
+  const chunksRef = useRef<Blob[]>([]);
+
   // Effect to request microphone access on mount and clean up stream
   useEffect(() => {
     let currentStream: MediaStream | null = null; // Keep track of the stream for cleanup
@@ -46,7 +63,7 @@ function useMicrophoneRecorder() {
         // Request microphone access
         console.log("Requesting microphone...");
         const mediaStream = await navigator.mediaDevices.getUserMedia({
-          audio: true,
+          audio: deviceId ? { deviceId: { exact: deviceId } } : true,
         });
         console.log("Microphone access granted.");
         currentStream = mediaStream; // Store the stream for cleanup
@@ -99,7 +116,7 @@ function useMicrophoneRecorder() {
       setAudioChunks([]); // Clear any pending chunks
       // Do not set recordingState here, let the component decide based on resource availability
     };
-  }, []); // Empty dependency array ensures this effect runs only once on mount
+  }, [deviceId]); // Runs on mount, and again to reopen the stream when the device changes
 
   // Function to start recording
   const startRecording = (): void => {
@@ -122,11 +139,14 @@ function useMicrophoneRecorder() {
 
     console.log("Starting recording...");
     setAudioChunks([]); // Clear previous recordings before starting a new one
+    chunksRef.current = [];
     setError(null); // Clear previous errors
 
     try {
       // Create MediaRecorder instance with the stream
-      const options: MediaRecorderOptions = { mimeType: "audio/webm" }; // Specify options type
+      // The first format this platform can record, "audio/webm" is not available everywhere
+      const mimeType = pickRecorderMimeType();
+      const options: MediaRecorderOptions = mimeType ? { mimeType } : {}; // Specify options type
       const mediaRecorder = new MediaRecorder(stream, options);
 
       // Event handler for available data chunks
@@ -135,6 +155,8 @@ function useMicrophoneRecorder() {
           console.log("Data available:", event.data.size, "bytes");
           // Use functional update for state to ensure correct value
           setAudioChunks((prevChunks) => [...prevChunks, event.data]);
+          chunksRef.current = [...chunksRef.current, event.data];
+          onDataAvailable?.(chunksRef.current);
         }
       };
 
@@ -155,9 +177,8 @@ function useMicrophoneRecorder() {
       // Store the recorder instance in the ref
       mediaRecorderRef.current = mediaRecorder;
 
-      // Start recording
-      // Optional: start(timeslice) for chunking data
-      mediaRecorder.start();
+      // Start recording, chunked when streaming transcription is wanted
+      mediaRecorder.start(timeslice);
 
       setRecordingState("recording");
     } catch (err: any) {
@@ -221,7 +242,9 @@ function useMicrophoneRecorder() {
   };
 
   // Function to get the recorded audio blob after recording stops
-  const getRecordedBlob = (mimeType = "audio/webm"): Blob | null => {
+  const getRecordedBlob = (
+    mimeType = mediaRecorderRef.current?.mimeType || "audio/webm",
+  ): Blob | null => {
     // Can only get blob when recording is stopped and chunks exist
     if (recordingState !== "stopped" || audioChunks.length === 0) {
       console.warn(
@@ -1,35 +1,111 @@
 import {
   app,
   BrowserWindow,
+  clipboard,
   ipcMain,
   globalShortcut,
   Menu,
-  clipboard,
+  net,
+  Notification,
   screen,
   systemPreferences,
+  Tray,
   dialog, // Import dialog for showSaveDialog
+  Display,
 } from "electron";
 import path from "path"; // Use ES Module import style
 import fs from "fs-extra"; // fs-extra includes promises by default
-import os from "os";
-import Groq from "groq-sdk"; // Assuming groq-sdk is installed
 import "dotenv/config"; // Loads environment variables from .env file
-import { spawn } from "child_process";
-
-const isDev = process.env.NODE_ENV === "development";
-function getGoosePath() {
-  if (isDev) {
-    return "goose"; // assume installed globally in dev
-  } else {
-    return path.join(process.resourcesPath, "goose");
-  }
-}
+import { createActiveWindowProvider, detectProfile } from "./lib/activewindow";
+import {
+  AgentOutputEvent,
+  AgentRun,
+  AgentRunResult,
+  createAgentBackend,
+} from "./lib/agent";
+import { cleanupTranscript } from "./lib/cleanup";
+import { applyCommands } from "./lib/commands";
+import type {
+  AgentBackendConfig,
+  CleanupStyle,
+  DictationProfile,
+  ShortcutBinding,
+} from "./lib/config";
+import { createTempPath, sweepTempFiles } from "./lib/tempfiles";
+import { synthesizeWithPiper } from "./lib/tts";
+import { detectWakeWord } from "./lib/wakeword";
+import {
+  addHistoryEntry,
+  applyRetention,
+  deleteHistoryEntry,
+  getHistoryEntry,
+  HistoryEntry,
+  HistoryQuery,
+  listHistory,
+  readHistoryAudio,
+} from "./lib/history";
+import { insertText, InsertionResult } from "./lib/insertion";
+import {
+  clampToWorkArea,
+  getAnchorPosition,
+  getSavedPosition,
+  Point,
+  savePosition,
+} from "./lib/placement";
+import {
+  enqueueJob,
+  getDueJobs,
+  getJob,
+  listJobs,
+  QueuedJob,
+  readJobAudio,
+  recordFailedAttempt,
+  removeJob,
+} from "./lib/queue";
+import { getWavDuration, transcribeInSegments } from "./lib/segments";
+import {
+  convertToWav,
+  createTranscriptionProvider,
+  TRANSLATE_UNSUPPORTED,
+  TranscriptionOptions,
+  TranscriptionResult,
+} from "./lib/transcription";
+import {
+  getSettings,
+  onSettingsChanged,
+  Settings,
+  SettingsPatch,
+  updateSettings,
+} from "./lib/settings";
+import { registerShortcuts, ShortcutStatus } from "./lib/shortcuts";
+import { getTrayIcon, STATUS_LABELS } from "./lib/tray";
+import {
+  applyReplacements,
+  buildPrompt,
+  exportVocabulary,
+  getVocabulary,
+  mergeProfiles,
+  parseVocabulary,
+} from "./lib/vocabulary";
+import type {
+  MicrophoneStatus,
+  PipelineStatus,
+  PipelineStatusEvent,
+  RecordingRequest,
+  RecordingStatus,
+  SpeechStatus,
+  TranscribeRequest,
+  TranscriptionResultEvent,
+  WakeWordState,
+} from "./types/electron-api";
 
 // This allows TypeScript to pick up the magic constants that's auto-generated by Forge's Webpack
 // plugin that tells the Electron app where to look for the Webpack-bundled app code (depending on
 // whether you're running in development or production).
 declare const MAIN_WINDOW_WEBPACK_ENTRY: string;
 declare const MAIN_WINDOW_PRELOAD_WEBPACK_ENTRY: string; // Note: Forge v6+ changed this constant name
+declare const SETTINGS_WINDOW_WEBPACK_ENTRY: string;
+declare const SETTINGS_WINDOW_PRELOAD_WEBPACK_ENTRY: string;
 
 // Handle creating/removing shortcuts on Windows when installing/uninstalling.
 if (require("electron-squirrel-startup")) {
@@ -37,12 +113,53 @@ if (require("electron-squirrel-startup")) {
 }
 
 let mainWindow: BrowserWindow | null = null; // Use null for type safety
+let settingsWindow: BrowserWindow | null = null;
+
+// Most recent final transcript, for the re-insert shortcut
+let lastTranscript: string | null = null;
+let lastRawTranscript: string | null = null; // Before the cleanup pass
+
+// The focused application picks a dictation profile when a shortcut starts recording
+const activeWindowProvider = createActiveWindowProvider();
+let recordingProfile: Promise<DictationProfile | null> = Promise.resolve(null);
+let dictationProfile: DictationProfile | null = null; // Of the transcript being inserted
+
+// Status icon with quick actions, the only visible sign of the app while the overlay is hidden
+let tray: Tray | null = null;
+let recentTranscripts: string[] = []; // Newest first, listed in the tray menu
+const RECENT_TRANSCRIPTS = 5;
+
+// Result of the last shortcut registration, shown in the settings window
+let shortcutStatuses: ShortcutStatus[] = [];
+
+// Current stage of the dictation pipeline, shown by the Notch
+let pipelineStatus: PipelineStatusEvent = { status: "idle" };
+let pipelineTimer: NodeJS.Timeout | null = null;
+
+// Whether the renderer is reading an answer aloud
+let isSpeaking = false;
+
+// Wake word listening paused from the overlay or the menu, until resumed
+let wakeWordPaused = false;
+let wakeWordErrorShown = false; // Only notify once about a broken wake word setup
+
+// Microphone in use, as last reported by the renderer
+let microphoneStatus: MicrophoneStatus | null = null;
+
+// Where positionWindow last put the overlay, so its own moves are not taken for drags
+let expectedPosition: Point | null = null;
+let dragSaveTimer: NodeJS.Timeout | null = null;
+
+const IDLE_HIDE_DELAY_MS = 1500; // Let the Notch settle to dormant before hiding it
+const ERROR_DISPLAY_MS = 6000;
 
 const createWindow = (): void => {
+  const { width, height } = getSettings().window;
+
   // Create the browser window with custom settings.
   mainWindow = new BrowserWindow({
-    width: 300,
-    height: 180,
+    width,
+    height,
     show: false, // Don't show immediately
     frame: false, // No window frame
     transparent: true, // Transparent background
@@ -83,6 +200,9 @@ const createWindow = (): void => {
   // Load the renderer process entry point using the Webpack magic constant
   mainWindow.loadURL(MAIN_WINDOW_WEBPACK_ENTRY);
 
+  // The Notch is a drag handle, moving it pins the overlay where it is dropped
+  mainWindow.on("move", handleWindowMoved);
+
   // Optional: Open the DevTools automatically in development
   if (process.env.NODE_ENV === "development") {
     mainWindow.webContents.openDevTools();
@@ -100,6 +220,8 @@ const createWindow = (): void => {
   mainWindow.webContents.on("did-finish-load", () => {
     console.log("Window loaded, setting up global shortcut");
     setupGlobalShortcut();
+    // The listening indicator stays on screen while the wake word is enabled
+    if (getSettings().wakeWord.enabled) showWindow();
   });
 
   // Log errors if the window fails to load
@@ -116,24 +238,123 @@ const createWindow = (): void => {
   });
 };
 
-// Function to show the window at a specific position
-function showWindow(): void {
+// The display to anchor on: the one under the mouse, or the primary one
+function getTargetDisplay(): Display {
+  return getSettings().window.followCursor
+    ? screen.getDisplayNearestPoint(screen.getCursorScreenPoint())
+    : screen.getPrimaryDisplay();
+}
+
+// Place the window at its anchor, `margin` px from the work area edges, or
+// where it was dragged to
+function positionWindow(): void {
   if (mainWindow && !mainWindow.isDestroyed()) {
-    // Get the position of the primary display
-    const { workArea } = screen.getPrimaryDisplay();
-
-    // Position the window in the bottom right corner (adjust offsets as needed)
-    const windowWidth = mainWindow.getSize()[0];
-    const windowHeight = mainWindow.getSize()[1];
-    mainWindow.setPosition(
-      workArea.x + workArea.width - windowWidth - 20, // 20px padding from right
-      workArea.y + workArea.height - windowHeight - 20, // 20px padding from bottom
+    const { anchor, margin } = getSettings().window;
+    const [windowWidth, windowHeight] = mainWindow.getSize();
+
+    let display: Display;
+    let position: Point;
+    if (anchor === "free") {
+      // Where it was dragged under this display layout, otherwise where it is
+      const saved = getSavedPosition(screen.getAllDisplays());
+      display =
+        saved?.display || screen.getDisplayMatching(mainWindow.getBounds());
+      const [x, y] = mainWindow.getPosition();
+      position = saved?.position || { x, y };
+    } else {
+      display = getTargetDisplay();
+      position = getAnchorPosition(
+        anchor,
+        display.workArea,
+        windowWidth,
+        windowHeight,
+        margin,
+      );
+    }
+
+    expectedPosition = clampToWorkArea(
+      position,
+      display.workArea,
+      windowWidth,
+      windowHeight,
     );
+    mainWindow.setPosition(expectedPosition.x, expectedPosition.y);
+  }
+}
 
-    mainWindow.showInactive(); // Show without focusing
+// Moves not made by positionWindow are drags: keep the overlay where it was dropped
+function handleWindowMoved(): void {
+  if (!mainWindow || mainWindow.isDestroyed()) return;
+  const [x, y] = mainWindow.getPosition();
+  // Fractional scaling can round the position by a pixel
+  if (
+    expectedPosition &&
+    Math.abs(x - expectedPosition.x) <= 2 &&
+    Math.abs(y - expectedPosition.y) <= 2
+  ) {
+    return;
+  }
+
+  if (dragSaveTimer) clearTimeout(dragSaveTimer);
+  dragSaveTimer = setTimeout(() => {
+    dragSaveTimer = null;
+    if (!mainWindow || mainWindow.isDestroyed()) return;
+    const [left, top] = mainWindow.getPosition();
+    expectedPosition = { x: left, y: top };
+    savePosition(
+      screen.getAllDisplays(),
+      screen.getDisplayMatching(mainWindow.getBounds()),
+      expectedPosition,
+    );
+    if (getSettings().window.anchor !== "free") {
+      console.log("Overlay dragged, switching to a free position");
+      updateSettings({ window: { anchor: "free" } });
+    }
+  }, 500);
+}
+
+// Displays added, removed or rescaled: move the overlay back onto one
+function handleDisplaysChanged(): void {
+  console.log("Display configuration changed");
+  if (mainWindow && !mainWindow.isDestroyed() && mainWindow.isVisible()) {
+    positionWindow();
+  }
+}
+
+// Function to show the window at a specific position
+function showWindow(focus = false): void {
+  if (mainWindow && !mainWindow.isDestroyed()) {
+    positionWindow();
+    if (focus) {
+      // Needed for keyboard actions, e.g. on the answer panel
+      mainWindow.show();
+      mainWindow.focus();
+    } else {
+      mainWindow.showInactive(); // Show without focusing
+    }
   }
 }
 
+// Grow the window to fit its content, never below the configured size or past the work area
+function fitWindowToContent(width: number, height: number): void {
+  if (!mainWindow || mainWindow.isDestroyed()) return;
+  const { workArea } = screen.getDisplayMatching(mainWindow.getBounds());
+  const { window: windowSettings } = getSettings();
+  const maxWidth = workArea.width - 2 * windowSettings.margin;
+  const maxHeight = workArea.height - 2 * windowSettings.margin;
+  const fittedWidth = Math.min(Math.max(width, windowSettings.width), maxWidth);
+  const fittedHeight = Math.min(
+    Math.max(height, windowSettings.height),
+    maxHeight,
+  );
+
+  const [currentWidth, currentHeight] = mainWindow.getSize();
+  if (fittedWidth === currentWidth && fittedHeight === currentHeight) return;
+  mainWindow.setSize(fittedWidth, fittedHeight);
+  // Keep the window anchored as it grows
+  if (mainWindow.isVisible()) positionWindow();
+}
+
 // Function to hide the window
 function hideWindow(): void {
   if (mainWindow && !mainWindow.isDestroyed()) {
@@ -141,6 +362,73 @@ function hideWindow(): void {
   }
 }
 
+// Open the settings window on the given tab, or focus it when it is already open
+function openSettingsWindow(tab: "settings" | "history" = "settings"): void {
+  if (settingsWindow && !settingsWindow.isDestroyed()) {
+    settingsWindow.loadURL(`${SETTINGS_WINDOW_WEBPACK_ENTRY}#${tab}`);
+    settingsWindow.focus();
+    return;
+  }
+
+  settingsWindow = new BrowserWindow({
+    width: 560,
+    height: 680,
+    title: "Seery Settings",
+    webPreferences: {
+      preload: SETTINGS_WINDOW_PRELOAD_WEBPACK_ENTRY,
+      contextIsolation: true,
+      nodeIntegration: false,
+    },
+  });
+  settingsWindow.setMenuBarVisibility(false);
+  settingsWindow.loadURL(`${SETTINGS_WINDOW_WEBPACK_ENTRY}#${tab}`);
+
+  settingsWindow.on("closed", () => {
+    settingsWindow = null;
+  });
+}
+
+// Apply changed settings to the running app and forward them to every renderer
+function applySettings(settings: Settings, previous: Settings): void {
+  const changed = (section: keyof Settings) =>
+    JSON.stringify(settings[section]) !== JSON.stringify(previous[section]);
+
+  if (changed("shortcuts")) {
+    setupGlobalShortcut();
+  }
+
+  if (settings.general.openAtLogin !== previous.general.openAtLogin) {
+    app.setLoginItemSettings({
+      openAtLogin: settings.general.openAtLogin,
+      openAsHidden: true,
+    });
+  }
+
+  if (changed("history")) {
+    applyRetention(settings.history).then(notifyHistoryChanged);
+  }
+
+  if (changed("wakeWord")) {
+    wakeWordErrorShown = false;
+    broadcastWakeWordState();
+    if (pipelineStatus.status === "idle") {
+      if (settings.wakeWord.enabled) showWindow();
+      else hideWindow();
+    }
+  }
+
+  if (changed("window") && mainWindow && !mainWindow.isDestroyed()) {
+    const { width, height } = settings.window;
+    // A drag only changes the anchor, keep the size fitted to the content
+    if (width !== previous.window.width || height !== previous.window.height) {
+      mainWindow.setSize(width, height);
+    }
+    if (mainWindow.isVisible()) positionWindow(); // Re-anchor
+  }
+
+  sendToWindows("settings-changed", settings);
+}
+
 // Create a basic application menu (optional, often hidden for small utility apps)
 function createApplicationMenu(): void {
   const template: Electron.MenuItemConstructorOptions[] = [
@@ -161,7 +449,24 @@ function createApplicationMenu(): void {
     {
       label: "File",
       submenu: [
-        { label: "Show App", click: () => showWindow() }, // Use showWindow helper
+        {
+          label: "Settings…",
+          accelerator: "CommandOrControl+,",
+          click: () => openSettingsWindow(),
+        },
+        {
+          label: "History…",
+          accelerator: "CommandOrControl+Shift+H",
+          click: () => openSettingsWindow("history"),
+        },
+        { type: "separator" },
+        {
+          label: "Pause Wake Word",
+          type: "checkbox",
+          checked: wakeWordPaused,
+          enabled: getSettings().wakeWord.enabled,
+          click: (item) => setWakeWordPaused(item.checked),
+        },
         { type: "separator" },
         { label: "Quit", click: () => app.quit() },
       ],
@@ -186,35 +491,304 @@ function createApplicationMenu(): void {
   Menu.setApplicationMenu(menu);
 }
 
-// Setup the global keyboard shortcut
-function setupGlobalShortcut(): void {
-  // Unregister any existing shortcuts first to avoid conflicts
-  globalShortcut.unregisterAll();
-  console.log("Unregistered previous global shortcuts.");
+// One line of a transcript, short enough for a menu item
+function toMenuLabel(text: string): string {
+  const line = text.replace(/\s+/g, " ").trim();
+  return line.length > 40 ? `${line.slice(0, 40)}…` : line;
+}
 
-  // Register the shortcut to trigger showing the window and sending action
-  const shortcut = "CommandOrControl+Shift+x";
-  const registered = globalShortcut.register(shortcut, () => {
-    console.log(`Global shortcut triggered: ${shortcut}`);
-    // showWindow(); // Decide if shortcut should always show window, or renderer controls visibility
+function createTray(): void {
+  tray = new Tray(getTrayIcon(pipelineStatus.status));
+  updateTray();
+}
 
-    const windows = BrowserWindow.getAllWindows();
-    console.log(
-      `Sending 'toggle-recording' event to ${windows.length} windows`,
+// Icon, tooltip and menu follow the pipeline stage, history and wake word state
+function updateTray(): void {
+  if (!tray || tray.isDestroyed()) return;
+  const { status } = pipelineStatus;
+  tray.setImage(getTrayIcon(status));
+  tray.setToolTip(`Seery: ${STATUS_LABELS[status]}`);
+
+  const wakeWord = getWakeWordState();
+  const recent =
+    recentTranscripts.length > 0
+      ? recentTranscripts
+      : lastTranscript
+        ? [lastTranscript]
+        : [];
+  const menu = Menu.buildFromTemplate([
+    { label: STATUS_LABELS[status], enabled: false },
+    { type: "separator" },
+    {
+      label: status === "recording" ? "Stop Dictation" : "Start Dictation",
+      click: () => {
+        // Like the shortcut, the first press silences an answer being read out
+        if (isSpeaking) {
+          sendToWindows("stop-speech");
+          return;
+        }
+        const request: RecordingRequest = { target: "insert" };
+        recordingProfile = Promise.resolve(null);
+        sendToWindows("toggle-recording", request);
+      },
+    },
+    {
+      label: "Recent Transcripts",
+      enabled: recent.length > 0,
+      submenu: recent.map((text) => ({
+        label: toMenuLabel(text),
+        submenu: [
+          { label: "Copy", click: () => clipboard.writeText(text) },
+          {
+            label: "Re-insert",
+            click: () => insertText(text, getSettings().insertion),
+          },
+        ],
+      })),
+    },
+    {
+      label: "Pause Listening",
+      type: "checkbox",
+      checked: wakeWord.paused,
+      enabled: wakeWord.enabled,
+      click: (item) => setWakeWordPaused(item.checked),
+    },
+    { type: "separator" },
+    { label: "Settings…", click: () => openSettingsWindow() },
+    { label: "History…", click: () => openSettingsWindow("history") },
+    { type: "separator" },
+    { label: "Quit Seery", click: () => app.quit() },
+  ]);
+  tray.setContextMenu(menu);
+}
+
+// Reload the transcripts listed in the tray and tell the history views
+async function notifyHistoryChanged(): Promise<void> {
+  sendToWindows("history-changed");
+  if (getSettings().history.enabled) {
+    const entries = await listHistory({ limit: RECENT_TRANSCRIPTS });
+    recentTranscripts = entries.map((entry) => entry.text);
+  } else {
+    recentTranscripts = [];
+  }
+  updateTray();
+}
+
+// Save a transcript to the history; a failed write is logged and must not
+// turn a finished transcription into a failed (and re-queued) one
+async function recordHistory(
+  ...args: Parameters<typeof addHistoryEntry>
+): Promise<void> {
+  try {
+    await addHistoryEntry(...args);
+    notifyHistoryChanged();
+  } catch (error) {
+    console.error("Failed to save the transcript to the history:", error);
+  }
+}
+
+// Send an event to every renderer window
+function sendToWindows(channel: string, ...args: unknown[]): void {
+  const windows = BrowserWindow.getAllWindows();
+  console.log(`Sending '${channel}' event to ${windows.length} windows`);
+  windows.forEach((window) => {
+    if (!window.isDestroyed()) {
+      window.webContents.send(channel, ...args);
+    }
+  });
+}
+
+// Show a system notification, used for problems the user has to act on
+function notifyUser(title: string, body: string): void {
+  if (Notification.isSupported()) {
+    new Notification({ title, body }).show();
+  }
+}
+
+// Move the pipeline to a new stage: the overlay shows while busy and hides once idle
+function setPipelineStatus(status: PipelineStatus, message?: string): void {
+  const previous = pipelineStatus.status;
+  pipelineStatus = { status, message };
+  console.log(`Pipeline status: ${status}${message ? ` (${message})` : ""}`);
+  if (pipelineTimer) {
+    clearTimeout(pipelineTimer);
+    pipelineTimer = null;
+  }
+  sendToWindows("pipeline-status", pipelineStatus);
+  updateTray();
+
+  if (status === "idle") {
+    if (!getSettings().wakeWord.enabled) {
+      pipelineTimer = setTimeout(hideWindow, IDLE_HIDE_DELAY_MS);
+    } else if (mainWindow && !mainWindow.isVisible()) {
+      // Back without focus after the answer panel was hidden
+      showWindow();
+    }
+    return;
+  }
+  // Answers stay until dismissed and take focus for their keyboard actions
+  if (status === "answering") {
+    showWindow(true);
+    return;
+  }
+  // A dictation started over the answer panel: hiding it hands focus back to
+  // the application the transcript goes to, the overlay returns without focus
+  if (
+    previous === "answering" &&
+    mainWindow &&
+    !mainWindow.isDestroyed() &&
+    mainWindow.isFocused()
+  ) {
+    hideWindow();
+  }
+  if (mainWindow && !mainWindow.isVisible()) {
+    showWindow();
+  }
+  // Errors go away by themselves
+  if (status === "error") {
+    pipelineTimer = setTimeout(
+      () => setPipelineStatus("idle"),
+      ERROR_DISPLAY_MS,
     );
-    windows.forEach((window) => {
-      if (!window.isDestroyed()) {
-        window.webContents.send("toggle-recording");
-        console.log("Sent 'toggle-recording' to a window.");
+  }
+}
+
+function getWakeWordState(): WakeWordState {
+  return {
+    enabled: getSettings().wakeWord.enabled,
+    paused: wakeWordPaused,
+    phrase: getSettings().wakeWord.phrase,
+  };
+}
+
+// Tell the renderers and the menu whether the wake word is being listened for
+function broadcastWakeWordState(): void {
+  sendToWindows("wake-word-state", getWakeWordState());
+  createApplicationMenu(); // Refresh the pause checkbox
+  updateTray();
+}
+
+function setWakeWordPaused(paused: boolean): void {
+  wakeWordPaused = paused;
+  console.log(`Wake word ${paused ? "paused" : "resumed"}`);
+  broadcastWakeWordState();
+}
+
+// Insert the most recent transcript again, e.g. after focusing the right field
+async function reinsertLastTranscript(raw = false): Promise<void> {
+  const text = raw ? lastRawTranscript : lastTranscript;
+  if (!text) {
+    console.log("No transcript to re-insert yet.");
+    return;
+  }
+  const result = await insertText(text, getSettings().insertion);
+  console.log(
+    `Re-inserted last ${raw ? "raw " : ""}transcript:`,
+    result.message,
+  );
+}
+
+// Read the focused window while it still has focus, alongside the recording
+function startProfileDetection(
+  request: RecordingRequest,
+): Promise<DictationProfile | null> {
+  const { profiles } = getSettings();
+  if (
+    request.target !== "insert" ||
+    !profiles.enabled ||
+    !activeWindowProvider
+  ) {
+    return Promise.resolve(null);
+  }
+  return detectProfile(activeWindowProvider, profiles.profiles);
+}
+
+function handleShortcutPress(binding: ShortcutBinding): void {
+  // The dictation shortcuts first silence an answer being read out
+  if (
+    (binding.action === "toggle-dictation" ||
+      binding.action === "translate-dictation") &&
+    isSpeaking
+  ) {
+    sendToWindows("stop-speech");
+    return;
+  }
+
+  switch (binding.action) {
+    case "toggle-dictation":
+    case "translate-dictation":
+    case "ask-agent": {
+      const request: RecordingRequest =
+        binding.action === "ask-agent"
+          ? { target: "agent", agentBackend: binding.agentBackend }
+          : {
+              target: "insert",
+              translate: binding.action === "translate-dictation",
+            };
+      if (pipelineStatus.status !== "recording") {
+        // Better said now than after the user has finished speaking
+        if (
+          request.translate &&
+          getSettings().transcription.provider === "local"
+        ) {
+          setPipelineStatus("error", TRANSLATE_UNSUPPORTED);
+          break;
+        }
+        recordingProfile = startProfileDetection(request);
       }
-    });
+      // Push-to-talk records only while the chord is held
+      sendToWindows(
+        binding.mode === "push-to-talk"
+          ? "start-recording"
+          : "toggle-recording",
+        request,
+      );
+      break;
+    }
+    case "cancel-dictation":
+      recordingProfile = Promise.resolve(null);
+      sendToWindows("cancel-recording");
+      cancelAgentRuns();
+      break;
+    case "reinsert-last":
+      reinsertLastTranscript();
+      break;
+    case "insert-raw":
+      reinsertLastTranscript(true);
+      break;
+  }
+}
+
+function handleShortcutRelease(binding: ShortcutBinding): void {
+  if (
+    binding.action === "toggle-dictation" ||
+    binding.action === "translate-dictation" ||
+    binding.action === "ask-agent"
+  ) {
+    sendToWindows("stop-recording");
+  }
+}
+
+// Setup the global keyboard shortcuts, reporting any that could not be registered
+function setupGlobalShortcut(): void {
+  shortcutStatuses = registerShortcuts(getSettings().shortcuts, {
+    onPress: handleShortcutPress,
+    onRelease: handleShortcutRelease,
   });
 
-  if (!registered) {
-    console.error(`Global shortcut registration failed: ${shortcut}`);
-    // Handle error - maybe notify user or log
-  } else {
-    console.log(`Global shortcut registered: ${shortcut}`);
+  const failed = shortcutStatuses.filter((status) => !status.registered);
+  failed.forEach((status) => {
+    console.error(
+      `Global shortcut registration failed: ${status.accelerator} (${status.error})`,
+    );
+  });
+  if (failed.length > 0) {
+    notifyUser(
+      "Some Seery shortcuts are not available",
+      failed
+        .map((status) => `${status.accelerator}: ${status.error}`)
+        .join("\n"),
+    );
   }
 }
 
@@ -250,12 +824,31 @@ async function checkAndRequestMicrophonePermission(): Promise<boolean> {
 app.whenReady().then(() => {
   // Set app to open at login (optional, useful for background apps)
   app.setLoginItemSettings({
-    openAtLogin: true,
+    openAtLogin: getSettings().general.openAtLogin,
     openAsHidden: true, // Keep it hidden on launch
   });
 
+  // Settings edited in the settings window take effect without a restart
+  onSettingsChanged(applySettings);
+
+  // Expire old history entries left over from previous runs
+  applyRetention(getSettings().history);
+
+  // Clean up after a crash and pick up recordings still waiting for a retry
+  sweepTempFiles().catch((error) =>
+    console.error("Failed to clean temporary files:", error),
+  );
+  processQueue();
+
   createWindow(); // Create the main window
   createApplicationMenu(); // Create the application menu
+  createTray();
+
+  // Monitors plugged in, unplugged or rescaled
+  screen.on("display-added", handleDisplaysChanged);
+  screen.on("display-removed", handleDisplaysChanged);
+  screen.on("display-metrics-changed", handleDisplaysChanged);
+  notifyHistoryChanged(); // Fills the recent transcripts of the tray menu
 
   // Optional: Request microphone permission on startup
   // checkAndRequestMicrophonePermission();
@@ -285,69 +878,640 @@ app.on("will-quit", () => {
 
 // --- IPC Main Process Handlers ---
 
-// Handler to transcribe audio using Groq SDK
+// Sessions with a partial pass running; the renderer sends one at a time
+const pendingPartials = new Set<string>();
+// Sessions whose final pass started while a partial was running, so its result is dropped
+const finalizedSessions = new Set<string>();
+
+// Only a plain extension from the renderer ends up in the file name
+function toAudioExtension(format?: string): string {
+  return format && /^[a-z0-9]{1,5}$/.test(format) ? format : "webm";
+}
+
+// Write the recording to a temporary file and run it through the configured provider
+async function transcribeBuffer(
+  arrayBuffer: ArrayBuffer,
+  options: TranscriptionOptions = {},
+  {
+    format,
+    durationMs,
+    profile,
+  }: {
+    format?: string;
+    durationMs?: number;
+    profile?: DictationProfile | null;
+  } = {},
+): Promise<{ text: string; provider: string; language?: string }> {
+  const settings = getSettings();
+  const config = settings.transcription;
+  const provider = createTranscriptionProvider(config);
+  const extension = toAudioExtension(format);
+  // Vocabulary terms bias the spelling, replacements fix what is still wrong
+  const vocabulary = getVocabulary(
+    settings.vocabulary,
+    profile?.vocabularyProfile,
+  );
+  options = {
+    ...options,
+    // Without a pinned language the engine detects it per recording
+    language: options.language ?? (config.language || undefined),
+    prompt: options.prompt ?? buildPrompt(vocabulary.terms),
+  };
+
+  // Create a temporary file to pass to the provider, named after the audio
+  // format so providers and ffmpeg can tell what it contains
+  const tempFilePath = await createTempPath("temp_audio", extension);
+  const wavPath = tempFilePath.replace(/\.[^.]+$/, ".16k.wav");
+
+  // Convert ArrayBuffer to Node.js Buffer and write to the temporary file
+  const buffer = Buffer.from(arrayBuffer);
+  await fs.writeFile(tempFilePath, buffer);
+  console.log("Temporary audio file created:", tempFilePath);
+
+  try {
+    // Recordings over the segment length would hit provider size and duration
+    // limits in one piece; they are split from a WAV copy of the audio
+    const seconds =
+      extension === "wav" ? getWavDuration(buffer) : (durationMs || 0) / 1000;
+    let result: TranscriptionResult;
+    if (seconds > config.segmentSeconds) {
+      let segmentSource = tempFilePath;
+      if (extension !== "wav") {
+        options.onProgress?.({ stage: "converting", percent: 0 });
+        await convertToWav(tempFilePath, wavPath, config.ffmpegPath);
+        segmentSource = wavPath;
+      }
+      result = await transcribeInSegments(
+        segmentSource,
+        provider,
+        {
+          segmentSeconds: config.segmentSeconds,
+          overlapSeconds: config.segmentOverlapSeconds,
+          concurrency: config.segmentConcurrency,
+        },
+        options,
+      );
+    } else {
+      result = await provider.transcribe(tempFilePath, options);
+    }
+
+    console.log(
+      `Transcription response (${provider.name}${result.language ? `, ${result.language}` : ""}):`,
+      result.text,
+    );
+    return {
+      text: applyReplacements(result.text, vocabulary.replacements),
+      provider: provider.name,
+      language: result.language,
+    };
+  } finally {
+    // Delete the temporary files whether or not the transcription succeeded
+    for (const file of [tempFilePath, wavPath]) {
+      if (await fs.pathExists(file)) await fs.unlink(file);
+    }
+    console.log("Temporary audio file deleted.");
+  }
+}
+
+interface Dictation {
+  text: string;
+  rawText?: string; // Set when the cleanup pass rewrote the text
+  style?: CleanupStyle;
+}
+
+// The profile's cleanup style, or the one from the settings
+function getCleanupStyle(profile?: DictationProfile | null): CleanupStyle {
+  return profile?.cleanupStyle ?? getSettings().cleanup.style;
+}
+
+// Spoken commands first, then the cleanup pass; a failed cleanup keeps the transcript
+async function prepareDictation(
+  transcript: string,
+  profile?: DictationProfile | null,
+): Promise<Dictation> {
+  const { commands, cleanup } = getSettings();
+  const text = applyCommands(transcript, commands);
+  const style = getCleanupStyle(profile);
+  if (style === "verbatim" || !text) return { text };
+  try {
+    const cleaned = await cleanupTranscript(text, cleanup, style);
+    return cleaned === text
+      ? { text }
+      : { text: cleaned, rawText: text, style };
+  } catch (error) {
+    console.error("Cleanup failed, inserting the transcript as it is:", error);
+    return { text };
+  }
+}
+
+// Handler to transcribe a finished recording with the configured transcription provider
 ipcMain.handle(
   "transcribe-audio",
-  async (event, arrayBuffer: ArrayBuffer): Promise<string | null> => {
-    if (!process.env.GROQ_API_KEY) {
-      console.error("GROQ_API_KEY is not set.");
-      throw new Error("API Key not configured.");
-    }
+  async (
+    event,
+    arrayBuffer: ArrayBuffer,
+    {
+      sessionId,
+      durationMs,
+      target = "insert",
+      agentBackend,
+      format,
+      translate = false,
+    }: TranscribeRequest = {},
+  ): Promise<string | null> => {
+    setPipelineStatus("transcribing");
+    let profile: DictationProfile | null = null;
     try {
       console.log(
         "Received ArrayBuffer in main process for transcription, size:",
         arrayBuffer.byteLength,
       );
-      const groq = new Groq({ apiKey: process.env.GROQ_API_KEY });
-
-      // Create a temporary file to pass to Groq SDK
-      const tempDir = os.tmpdir();
-      const tempFilePath = path.join(tempDir, `temp_audio_${Date.now()}.webm`); // Use unique name
-
-      // Convert ArrayBuffer to Node.js Buffer and write to the temporary file
-      const buffer = Buffer.from(arrayBuffer);
-      await fs.writeFile(tempFilePath, buffer);
-      console.log("Temporary audio file created:", tempFilePath);
-
-      // Create a read stream from the temporary file
-      // Groq SDK expects a Node.js ReadableStream for the file
-      const fileStream = fs.createReadStream(tempFilePath);
-
-      // Perform the transcription request
-      console.log("Sending audio to Groq API...");
-      const transcriptionResponse = await groq.audio.transcriptions.create({
-        file: fileStream as any, // Type assertion needed as groq-sdk might expect specific stream type
-        model: "whisper-large-v3", // Specify the model
-        response_format: "text", // Request plain text response
-      });
-
-      // Delete the temporary file after the transcription is done
-      await fs.unlink(tempFilePath);
-      console.log("Temporary audio file deleted.");
+      if (sessionId && pendingPartials.has(sessionId)) {
+        finalizedSessions.add(sessionId);
+      }
+      // Taken by this recording, a later one detects its own
+      profile = target === "insert" ? await recordingProfile : null;
+      recordingProfile = Promise.resolve(null);
+      dictationProfile = profile;
 
-      console.log("Groq API transcription response:", transcriptionResponse);
+      // Forward progress from local engines to the renderer
+      const {
+        text: transcript,
+        provider,
+        language,
+      } = await transcribeBuffer(
+        arrayBuffer,
+        {
+          translate,
+          onProgress: (progress) => {
+            if (event.sender.isDestroyed()) return;
+            event.sender.send("transcription-progress", progress);
+            // Long recordings take a while, show how far along they are
+            if (progress.segments) {
+              setPipelineStatus(
+                "transcribing",
+                `Transcribing part ${Math.min(progress.segments.completed + 1, progress.segments.total)} of ${progress.segments.total}`,
+              );
+            }
+          },
+        },
+        { format, durationMs, profile },
+      );
+      // Dictation is edited and cleaned up, agent prompts are kept as said
+      if (target === "insert" && getCleanupStyle(profile) !== "verbatim") {
+        setPipelineStatus("transcribing", "Cleaning up");
+      }
+      const { text, rawText, style }: Dictation =
+        target === "insert"
+          ? await prepareDictation(transcript, profile)
+          : { text: transcript };
 
-      // Check the response format - Groq returns an object { text: string } for this format
-      if (transcriptionResponse && transcriptionResponse.text) {
-        return transcriptionResponse.text;
-      } else {
-        console.error(
-          "Unexpected Groq API response format:",
-          transcriptionResponse,
-        );
-        // Return null or throw an error indicating format issue
-        throw new Error(
-          "Transcription failed: Unexpected API response format.",
+      if (text) {
+        lastTranscript = text;
+        lastRawTranscript = rawText ?? text;
+        await recordHistory(
+          {
+            text,
+            rawText,
+            style,
+            profile: profile?.name,
+            language,
+            translated: translate || undefined,
+            durationMs,
+            provider,
+          },
+          Buffer.from(arrayBuffer),
+          getSettings().history,
+          toAudioExtension(format),
         );
       }
+
+      // The final pass over the whole recording replaces the partial results
+      if (sessionId && !event.sender.isDestroyed()) {
+        const result: TranscriptionResultEvent = {
+          sessionId,
+          text,
+          isFinal: true,
+          language,
+          translated: translate,
+        };
+        event.sender.send("transcription-result", result);
+      }
+
+      // The renderer hands a transcript for the agent straight to agent:run
+      setPipelineStatus(text && target === "agent" ? "agent" : "idle");
+      return text;
     } catch (error: any) {
       console.error("Transcription error:", error);
+      // Keep the recording so the dictation is not lost, it is retried later
+      let queued = false;
+      if (arrayBuffer.byteLength > 0) {
+        try {
+          await enqueueJob(Buffer.from(arrayBuffer), {
+            format: toAudioExtension(format),
+            durationMs,
+            profile: profile?.id,
+            translate: translate || undefined,
+            target,
+            agentBackend,
+            lastError: String(error.message || error),
+          });
+          queued = true;
+          sendToWindows("queue-changed");
+          updateQueueTimer();
+        } catch (queueError) {
+          console.error("Failed to queue the recording:", queueError);
+        }
+      }
+      setPipelineStatus(
+        "error",
+        queued
+          ? "Transcription failed, saved to retry later"
+          : `Transcription failed: ${error.message || error}`,
+      );
       // Propagate the error back to the renderer
       throw new Error(`Transcription failed: ${error.message || error}`);
     }
   },
 );
 
+const QUEUE_CHECK_MS = 15 * 1000;
+let queueTimer: NodeJS.Timeout | null = null;
+let queueRunning = false;
+let wasOnline = true;
+// Retries in progress, so the timer and the retry button never run one twice
+const retries = new Map<string, Promise<string>>();
+
+function retryJob(job: QueuedJob): Promise<string> {
+  let retry = retries.get(job.id);
+  if (!retry) {
+    retry = transcribeJob(job).finally(() => retries.delete(job.id));
+    retries.set(job.id, retry);
+  }
+  return retry;
+}
+
+// Transcribe a queued recording; a dictation is kept for re-inserting rather
+// than typed into whatever happens to be focused by now, a question still
+// goes to the agent
+async function transcribeJob(job: QueuedJob): Promise<string> {
+  console.log(
+    `Retrying queued transcription ${job.id} (attempt ${job.attempts + 1})`,
+  );
+  // The profile of the application it was dictated into, if it still exists
+  const profile = getSettings().profiles.profiles.find(
+    ({ id }) => id === job.profile,
+  );
+  let result: { text: string; provider: string; language?: string };
+  try {
+    const audio = await readJobAudio(job);
+    result = await transcribeBuffer(
+      audio.buffer.slice(
+        audio.byteOffset,
+        audio.byteOffset + audio.byteLength,
+      ) as ArrayBuffer,
+      { translate: job.translate },
+      { format: job.format, durationMs: job.durationMs, profile },
+    );
+  } catch (error: any) {
+    console.error(`Retry of ${job.id} failed:`, error);
+    await recordFailedAttempt(job.id, String(error.message || error));
+    sendToWindows("queue-changed");
+    throw error;
+  }
+
+  const { text, rawText, style }: Dictation =
+    job.target === "agent"
+      ? { text: result.text }
+      : await prepareDictation(result.text, profile);
+  const { provider, language } = result;
+  await removeJob(job.id);
+  sendToWindows("queue-changed");
+  if (text) {
+    lastTranscript = text;
+    lastRawTranscript = rawText ?? text;
+    await recordHistory(
+      {
+        text,
+        rawText,
+        style,
+        profile: profile?.name,
+        language,
+        translated: job.translate,
+        durationMs: job.durationMs,
+        provider,
+      },
+      null,
+      getSettings().history,
+    );
+  }
+  if (text && job.target === "agent") {
+    runAgent(text, job.agentBackend, (output) =>
+      sendToWindows("agent:output", output),
+    ).catch((error) => console.error("Queued agent prompt failed:", error));
+  } else if (text) {
+    notifyUser(
+      "Queued dictation transcribed",
+      `${text.slice(0, 100)}${text.length > 100 ? "…" : ""}\nUse "Re-insert last transcript" to type it.`,
+    );
+  }
+  return text;
+}
+
+// Runs every QUEUE_CHECK_MS while jobs are pending
+async function processQueue(): Promise<void> {
+  if (queueRunning) return;
+  // Local engines work offline, hosted providers wait for the network
+  const { provider } = getSettings().transcription;
+  const online =
+    provider === "whisper-cpp" || provider === "local" || net.isOnline();
+  const reconnected = online && !wasOnline;
+  wasOnline = online;
+  if (!online) return;
+
+  queueRunning = true;
+  try {
+    // Coming back online retries everything without waiting out the backoff
+    for (const job of await getDueJobs(reconnected)) {
+      await retryJob(job).catch(() => undefined);
+    }
+  } finally {
+    queueRunning = false;
+  }
+  await updateQueueTimer();
+}
+
+async function updateQueueTimer(): Promise<void> {
+  const pending = (await listJobs()).length > 0;
+  if (pending && !queueTimer) {
+    queueTimer = setInterval(processQueue, QUEUE_CHECK_MS);
+  } else if (!pending && queueTimer) {
+    clearInterval(queueTimer);
+    queueTimer = null;
+  }
+}
+
+// Handler to transcribe the audio captured so far while a recording is still running
+ipcMain.handle(
+  "transcribe-partial",
+  async (
+    event,
+    sessionId: string,
+    arrayBuffer: ArrayBuffer,
+    format?: string,
+    translate = false,
+  ): Promise<void> => {
+    pendingPartials.add(sessionId);
+    try {
+      // Same vocabulary as the final pass will use
+      const { text, language } = await transcribeBuffer(
+        arrayBuffer,
+        { translate },
+        { format, profile: await recordingProfile },
+      );
+      if (finalizedSessions.has(sessionId) || event.sender.isDestroyed()) {
+        console.log(`Dropping late partial transcript for ${sessionId}`);
+        return;
+      }
+      const result: TranscriptionResultEvent = {
+        sessionId,
+        text,
+        isFinal: false,
+        language,
+        translated: translate,
+      };
+      event.sender.send("transcription-result", result);
+    } catch (error: any) {
+      // A failed partial is not fatal, the final pass still runs on stop
+      console.error("Partial transcription error:", error);
+    } finally {
+      pendingPartials.delete(sessionId);
+      finalizedSessions.delete(sessionId);
+    }
+  },
+);
+
+// Handler to read the current settings
+ipcMain.handle("settings:get", (): Settings => {
+  return getSettings();
+});
+
+// Handler to validate and save a settings change
+ipcMain.handle(
+  "settings:update",
+  async (event, patch: SettingsPatch): Promise<Settings> => {
+    console.log("Received settings:update IPC:", Object.keys(patch));
+    return updateSettings(patch);
+  },
+);
+
+// Handler to insert text into the focused application
+ipcMain.handle(
+  "simulate-typing",
+  async (event, text: string): Promise<InsertionResult> => {
+    console.log("Received simulate-typing IPC, length:", text.length);
+    // The dictation's profile may insert differently, e.g. typing into terminals
+    const { insertion } = getSettings();
+    const strategy = dictationProfile?.insertionStrategy ?? insertion.strategy;
+    return insertText(text, { ...insertion, strategy });
+  },
+);
+
+// Handler to browse and search the dictation history
+ipcMain.handle(
+  "history:list",
+  (event, query: HistoryQuery): Promise<HistoryEntry[]> => {
+    return listHistory(query);
+  },
+);
+
+// Handler to delete a history entry and its audio
+ipcMain.handle(
+  "history:delete",
+  async (event, id: string): Promise<boolean> => {
+    const deleted = await deleteHistoryEntry(id);
+    if (deleted) notifyHistoryChanged();
+    return deleted;
+  },
+);
+
+// Handler to insert a past transcript into the application focused before the history view
+ipcMain.handle(
+  "history:reinsert",
+  async (event, id: string, raw = false): Promise<InsertionResult> => {
+    const entry = await getHistoryEntry(id);
+    if (!entry) {
+      throw new Error("History entry not found.");
+    }
+
+    // Step out of the way so focus returns to the previous application
+    const window = BrowserWindow.fromWebContents(event.sender);
+    if (window?.isFocused()) {
+      window.minimize();
+      await new Promise((resolve) => setTimeout(resolve, 300));
+    }
+    const text = raw && entry.rawText ? entry.rawText : entry.text;
+    return insertText(text, getSettings().insertion);
+  },
+);
+
+// Handler to read the stored audio of a history entry for playback
+ipcMain.handle(
+  "history:get-audio",
+  async (event, id: string): Promise<ArrayBuffer | null> => {
+    const audio = await readHistoryAudio(id);
+    if (!audio) return null;
+    return audio.buffer.slice(
+      audio.byteOffset,
+      audio.byteOffset + audio.byteLength,
+    ) as ArrayBuffer;
+  },
+);
+
+// Handler to list the recordings waiting for a transcription retry
+ipcMain.handle("queue:list", (): Promise<QueuedJob[]> => {
+  return listJobs();
+});
+
+// Handler to retry a queued recording now, resolves with its transcript
+ipcMain.handle("queue:retry", async (event, id: string): Promise<string> => {
+  const job = await getJob(id);
+  if (!job) {
+    throw new Error("Queued recording not found.");
+  }
+  return retryJob(job);
+});
+
+// Handler to give up on a queued recording and delete its audio
+ipcMain.handle("queue:discard", async (event, id: string): Promise<boolean> => {
+  const removed = await removeJob(id);
+  if (removed) {
+    sendToWindows("queue-changed");
+    updateQueueTimer();
+  }
+  return removed;
+});
+
+// Handler to read the pipeline stage, e.g. when the Notch mounts
+ipcMain.handle("pipeline:get-status", (): PipelineStatusEvent => {
+  return pipelineStatus;
+});
+
+// Recording starts and ends in the renderer, which reports them here
+ipcMain.on(
+  "pipeline:recording-status",
+  (event, status: RecordingStatus, message?: string) => {
+    // A late "idle" from a discarded recording must not cut off a running stage
+    if (status === "idle" && pipelineStatus.status !== "recording") return;
+    setPipelineStatus(status, message);
+  },
+);
+
+// The Notch reports the size of its content so the window can fit it
+ipcMain.on("overlay:resize", (event, width: number, height: number) => {
+  fitWindowToContent(width, height);
+});
+
+// Handler to insert the agent's answer into the application used before it appeared
+ipcMain.handle("answer:insert", async (): Promise<InsertionResult | null> => {
+  const answer =
+    pipelineStatus.status === "answering" ? pipelineStatus.message : undefined;
+  if (!answer) return null;
+
+  // Hide first so focus returns to the previous application
+  hideWindow();
+  setPipelineStatus("idle");
+  await new Promise((resolve) => setTimeout(resolve, 300));
+  return insertText(answer, getSettings().insertion);
+});
+
+// Handler to synthesize an answer with the local speech engine
+ipcMain.handle(
+  "speech:synthesize",
+  async (event, text: string): Promise<ArrayBuffer> => {
+    const wav = await synthesizeWithPiper(text, getSettings().speech);
+    return wav.buffer.slice(
+      wav.byteOffset,
+      wav.byteOffset + wav.byteLength,
+    ) as ArrayBuffer;
+  },
+);
+
+// A spoken answer stays up exactly as long as it is being read out
+ipcMain.on("speech:status", (event, status: SpeechStatus) => {
+  isSpeaking = status === "speaking";
+  if (
+    (status === "finished" || status === "stopped") &&
+    pipelineStatus.status === "answering"
+  ) {
+    hideWindow();
+    setPipelineStatus("idle");
+  }
+});
+
+// The renderer reports which microphone it records from and whether it went quiet
+ipcMain.on("microphone:status", (event, status: MicrophoneStatus) => {
+  if (status.fallback && !microphoneStatus?.fallback) {
+    notifyUser(
+      "Microphone not connected",
+      `Recording from ${status.label} until it is plugged back in.`,
+    );
+  }
+  microphoneStatus = status;
+  sendToWindows("microphone-status", status);
+});
+
+ipcMain.handle("microphone:get-status", (): MicrophoneStatus | null => {
+  return microphoneStatus;
+});
+
+// Handler to check a speech clip for the wake phrase, always with the local engine
+ipcMain.handle(
+  "wake-word:check",
+  async (event, wav: ArrayBuffer): Promise<boolean> => {
+    const { wakeWord, transcription } = getSettings();
+    if (!wakeWord.enabled || wakeWordPaused) return false;
+    try {
+      const { detected, text } = await detectWakeWord(
+        Buffer.from(wav),
+        wakeWord,
+        transcription,
+      );
+      console.log(`Wake word check heard "${text}": ${detected}`);
+      return detected;
+    } catch (error: any) {
+      console.error("Wake word check failed:", error);
+      if (!wakeWordErrorShown) {
+        wakeWordErrorShown = true;
+        notifyUser(
+          "Wake word listening is not working",
+          error.message || String(error),
+        );
+      }
+      return false;
+    }
+  },
+);
+
+ipcMain.handle("wake-word:get-state", (): WakeWordState => {
+  return getWakeWordState();
+});
+
+ipcMain.handle("wake-word:set-paused", (event, paused: boolean): void => {
+  setWakeWordPaused(paused);
+});
+
+// Close the answer panel
+ipcMain.on("answer:dismiss", () => {
+  hideWindow();
+  setPipelineStatus("idle");
+});
+
+// Handler to report which shortcuts are registered
+ipcMain.handle("shortcuts:get-status", (): ShortcutStatus[] => {
+  return shortcutStatuses;
+});
+
 // Handler to request microphone access from the OS
 ipcMain.handle("request-microphone-access", async (): Promise<boolean> => {
   console.log("Received request-microphone-access IPC.");
@@ -422,36 +1586,167 @@ ipcMain.handle(
   },
 );
 
-ipcMain.handle("goose:runPrompt", async (_event, promptText) => {
-  return new Promise((resolve, reject) => {
-    const goosePath = getGoosePath(); // from step 1
-
-    // Spawn Goose, with stdio pipes
-    const goose = spawn(goosePath, ["--some-flag-if-needed"], {
-      stdio: ["pipe", "pipe", "pipe"],
+// Handler to import vocabulary profiles, shared files replace profiles with the same id
+ipcMain.handle(
+  "vocabulary:import",
+  async (): Promise<{ success: boolean; message: string }> => {
+    const { canceled, filePaths } = await dialog.showOpenDialog({
+      title: "Import Vocabulary",
+      properties: ["openFile"],
+      filters: [
+        { name: "Vocabulary", extensions: ["json", "txt"] },
+        { name: "All Files", extensions: ["*"] },
+      ],
     });
+    if (canceled || !filePaths.length) {
+      return { success: false, message: "Import cancelled" };
+    }
 
-    let stdout = "";
-    let stderr = "";
+    try {
+      const imported = parseVocabulary(
+        await fs.readFile(filePaths[0], "utf8"),
+        path.basename(filePaths[0]),
+      );
+      const { vocabulary } = getSettings();
+      // The settings schema rejects malformed profiles and invalid patterns
+      await updateSettings({
+        vocabulary: {
+          profiles: mergeProfiles(vocabulary.profiles, imported),
+        },
+      });
+      console.log(`Imported ${imported.length} vocabulary profiles`);
+      return {
+        success: true,
+        message: `Imported ${imported.map(({ name }) => name).join(", ")}`,
+      };
+    } catch (error: any) {
+      console.error("Failed to import vocabulary:", error);
+      return {
+        success: false,
+        message: `Failed to import: ${error.message || error}`,
+      };
+    }
+  },
+);
 
-    goose.stdout.on("data", (chunk) => {
-      stdout += chunk.toString();
+// Handler to export vocabulary profiles to share them
+ipcMain.handle(
+  "vocabulary:export",
+  async (
+    event,
+    profileIds?: string[],
+  ): Promise<{ success: boolean; message: string; filePath?: string }> => {
+    const { canceled, filePath } = await dialog.showSaveDialog({
+      title: "Export Vocabulary",
+      defaultPath: path.join(app.getPath("documents"), "seery-vocabulary.json"),
+      filters: [{ name: "Vocabulary", extensions: ["json"] }],
     });
-    goose.stderr.on("data", (chunk) => {
-      stderr += chunk.toString();
+    if (canceled || !filePath) {
+      return { success: false, message: "Export cancelled" };
+    }
+
+    try {
+      const profiles = getSettings().vocabulary.profiles.filter(
+        ({ id }) => !profileIds || profileIds.includes(id),
+      );
+      await fs.writeFile(filePath, exportVocabulary(profiles));
+      console.log("Vocabulary exported to", filePath);
+      return { success: true, message: "Vocabulary exported", filePath };
+    } catch (error: any) {
+      console.error("Failed to export vocabulary:", error);
+      return {
+        success: false,
+        message: `Failed to export: ${error.message || error}`,
+      };
+    }
+  },
+);
+
+// Agent runs in progress, so they can be cancelled from the renderer or a shortcut
+const agentRuns = new Map<string, AgentRun>();
+
+// Cancel one run, or every run in progress when no id is given
+function cancelAgentRuns(runId?: string): boolean {
+  const runs = runId
+    ? [agentRuns.get(runId)].filter((run): run is AgentRun => !!run)
+    : [...agentRuns.values()];
+  runs.forEach((run) => run.cancel());
+  return runs.length > 0;
+}
+
+// The backend chosen by the shortcut, or the default one
+function getAgentBackendConfig(backendId?: string): AgentBackendConfig {
+  const { backends, defaultBackend } = getSettings().agent;
+  const config =
+    backends.find((backend) => backend.id === backendId) ||
+    backends.find((backend) => backend.id === defaultBackend) ||
+    backends[0];
+  if (!config) {
+    throw new Error("No agent backend configured.");
+  }
+  if (backendId && config.id !== backendId) {
+    console.warn(`Unknown agent backend ${backendId}, using ${config.id}`);
+  }
+  return config;
+}
+
+// Run a prompt through an agent backend, the answer ends up in the answer panel
+async function runAgent(
+  promptText: string,
+  backendId: string | undefined,
+  onOutput: (output: AgentOutputEvent) => void,
+): Promise<AgentRunResult> {
+  setPipelineStatus("agent");
+
+  let run: AgentRun;
+  try {
+    const backend = createAgentBackend(getAgentBackendConfig(backendId));
+    // Output is forwarded as it arrives, the full result resolves on exit
+    run = backend.run(promptText, {
+      timeoutMs: getSettings().agent.timeoutMs,
+      onOutput,
     });
+  } catch (error: any) {
+    console.error("Agent error:", error);
+    setPipelineStatus("error", error.message || String(error));
+    throw error;
+  }
+  agentRuns.set(run.id, run);
+  console.log(`Agent run ${run.id} started`);
 
-    goose.on("error", (err) => reject(err));
-    goose.on("close", (code) => {
-      if (code === 0) {
-        resolve(stdout.trim());
-      } else {
-        reject(new Error(`Goose exited ${code}: ${stderr.trim()}`));
+  const result = await run.result;
+  agentRuns.delete(run.id);
+  console.log(
+    `Agent run ${run.id} finished in ${result.durationMs}ms (exit ${result.exitCode}${result.cancelled ? ", cancelled" : ""}${result.timedOut ? ", timed out" : ""})`,
+  );
+
+  if (result.cancelled) {
+    setPipelineStatus("idle");
+  } else if (result.timedOut) {
+    setPipelineStatus("error", "The agent took too long and was stopped.");
+  } else if (result.exitCode !== 0) {
+    setPipelineStatus(
+      "error",
+      result.error || result.stderr || `The agent exited ${result.exitCode}`,
+    );
+  } else {
+    setPipelineStatus("answering", result.stdout);
+  }
+  return result;
+}
+
+ipcMain.handle(
+  "agent:run",
+  (event, promptText: string, backendId?: string): Promise<AgentRunResult> => {
+    const sender = event.sender;
+    return runAgent(promptText, backendId, (output) => {
+      if (!sender.isDestroyed()) {
+        sender.send("agent:output", output);
       }
     });
+  },
+);
 
-    // send the prompt into stdin and then close stdin
-    goose.stdin.write(promptText);
-    goose.stdin.end();
-  });
-});
+ipcMain.handle("agent:cancel", (_event, runId?: string) =>
+  cancelAgentRuns(runId),
+);
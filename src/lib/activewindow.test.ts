@@ -0,0 +1,100 @@
+// lib/activewindow.test
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  ActiveWindow,
+  createMockProvider,
+  detectProfile,
+  matchProfile,
+} from "./activewindow";
+import type { DictationProfile } from "./config";
+
+const profile = (
+  id: string,
+  appPattern: string,
+  titlePattern = "",
+): DictationProfile => ({ id, name: id, appPattern, titlePattern });
+
+const profiles = [
+  profile("github", "firefox", "github"),
+  profile("browser", "firefox|chromium"),
+  profile("editor", "^code$"),
+  profile("unset", ""),
+];
+
+// Focused windows, and the id of the profile they should get
+const cases: [string, ActiveWindow, string | undefined][] = [
+  [
+    "the first matching profile wins",
+    { appName: "firefox", title: "Pull requests · GitHub" },
+    "github",
+  ],
+  [
+    "later profiles match when earlier ones do not",
+    { appName: "firefox", title: "News" },
+    "browser",
+  ],
+  [
+    "patterns match regardless of case",
+    { appName: "Chromium", title: "Docs" },
+    "browser",
+  ],
+  ["anchored patterns", { appName: "Code", title: "index.ts" }, "editor"],
+  [
+    "no profile for other applications",
+    { appName: "Gnome-terminal", title: "bash" },
+    undefined,
+  ],
+];
+
+describe("matchProfile", () => {
+  for (const [name, window, expected] of cases) {
+    it(name, () => {
+      assert.equal(matchProfile(window, profiles)?.id, expected);
+    });
+  }
+
+  it("an empty title pattern matches any title", () => {
+    const window = { appName: "firefox", title: "" };
+    assert.equal(matchProfile(window, profiles.slice(1))?.id, "browser");
+  });
+
+  it("a profile without any pattern never matches", () => {
+    const window = { appName: "anything", title: "at all" };
+    assert.equal(matchProfile(window, [profile("unset", "")]), undefined);
+  });
+
+  it("skips invalid patterns", () => {
+    const window = { appName: "firefox", title: "" };
+    const broken = [profile("broken", "fire(fox"), profile("browser", "fire")];
+    assert.equal(matchProfile(window, broken)?.id, "browser");
+  });
+});
+
+describe("detectProfile", () => {
+  it("uses the window the provider reports", async () => {
+    const provider = createMockProvider();
+    provider.setActiveWindow({ appName: "code", title: "" });
+    assert.equal((await detectProfile(provider, profiles))?.id, "editor");
+  });
+
+  it("is null without a focused window", async () => {
+    assert.equal(await detectProfile(createMockProvider(), profiles), null);
+  });
+
+  it("is null when the provider fails", async () => {
+    const provider = {
+      name: "failing",
+      getActiveWindow: () => Promise.reject(new Error("no display")),
+    };
+    assert.equal(await detectProfile(provider, profiles), null);
+  });
+
+  it("gives up when detection takes too long", async () => {
+    const provider = {
+      name: "hanging",
+      getActiveWindow: () => new Promise<ActiveWindow | null>(() => undefined),
+    };
+    assert.equal(await detectProfile(provider, profiles), null);
+  });
+});
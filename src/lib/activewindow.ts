@@ -0,0 +1,124 @@
+// lib/activewindow
+// Finds the application that has focus, so a dictation can use the profile
+// set up for it (insertion strategy, cleanup style, vocabulary)
+import type { DictationProfile } from "./config";
+import { runCommand } from "./process";
+
+export interface ActiveWindow {
+  appName: string; // X11 WM_CLASS class, e.g. "Code" or "Gnome-terminal"
+  title: string;
+}
+
+export interface ActiveWindowProvider {
+  readonly name: string;
+  getActiveWindow(): Promise<ActiveWindow | null>;
+}
+
+export interface MockActiveWindowProvider extends ActiveWindowProvider {
+  setActiveWindow(window: ActiveWindow | null): void;
+}
+
+const DETECT_TIMEOUT_MS = 1000; // The dictation goes ahead without a profile after this
+
+// xdotool for the focused window, xprop for its class
+export function createX11Provider(): ActiveWindowProvider {
+  return {
+    name: "x11",
+    async getActiveWindow() {
+      const id = (await runCommand("xdotool", ["getactivewindow"])).trim();
+      if (!id) return null;
+      const [title, properties] = await Promise.all([
+        runCommand("xdotool", ["getwindowname", id]),
+        runCommand("xprop", ["-id", id, "WM_CLASS"]),
+      ]);
+      // WM_CLASS(STRING) = "instance", "Class"
+      const names = (properties.match(/"[^"]*"/g) || []).map((name) =>
+        name.slice(1, -1),
+      );
+      return { appName: names[1] || names[0] || "", title: title.trim() };
+    },
+  };
+}
+
+// Reports whatever window it was given, for tests and for trying out profiles
+export function createMockProvider(
+  window: ActiveWindow | null = null,
+): MockActiveWindowProvider {
+  let current = window;
+  return {
+    name: "mock",
+    getActiveWindow: async () => current,
+    setActiveWindow(next) {
+      current = next;
+    },
+  };
+}
+
+/**
+ * The provider for this session, or null where the focused window cannot be
+ * read (Wayland, macOS and Windows so far). ACTIVE_WINDOW="Class|Title" pins
+ * a window through the mock provider.
+ */
+export function createActiveWindowProvider(): ActiveWindowProvider | null {
+  if (process.env.ACTIVE_WINDOW) {
+    const [appName, title = ""] = process.env.ACTIVE_WINDOW.split("|");
+    return createMockProvider({ appName, title });
+  }
+  if (
+    process.platform === "linux" &&
+    process.env.DISPLAY &&
+    !process.env.WAYLAND_DISPLAY
+  ) {
+    return createX11Provider();
+  }
+  return null;
+}
+
+function matches(pattern: string, value: string): boolean {
+  try {
+    return !pattern || new RegExp(pattern, "i").test(value);
+  } catch (error) {
+    console.warn(`Skipping invalid profile pattern "${pattern}":`, error);
+    return false;
+  }
+}
+
+// The first profile matching the window; profiles without patterns never match
+export function matchProfile(
+  window: ActiveWindow,
+  profiles: DictationProfile[],
+): DictationProfile | undefined {
+  return profiles.find(
+    (profile) =>
+      (profile.appPattern || profile.titlePattern) &&
+      matches(profile.appPattern, window.appName) &&
+      matches(profile.titlePattern, window.title),
+  );
+}
+
+// Look up the focused window and its profile, never failing the dictation
+export async function detectProfile(
+  provider: ActiveWindowProvider,
+  profiles: DictationProfile[],
+): Promise<DictationProfile | null> {
+  try {
+    const window = await Promise.race([
+      provider.getActiveWindow(),
+      new Promise<null>((resolve) =>
+        setTimeout(() => resolve(null), DETECT_TIMEOUT_MS),
+      ),
+    ]);
+    if (!window) return null;
+    const profile = matchProfile(window, profiles) || null;
+    console.log(
+      `Active window: ${window.appName} "${window.title}", profile: ${profile?.name || "none"}`,
+    );
+    return profile;
+  } catch (error) {
+    console.error(
+      `Could not read the active window (${provider.name}):`,
+      error,
+    );
+    return null;
+  }
+}
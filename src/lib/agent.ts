@@ -0,0 +1,329 @@
+// lib/agent
+// Agent backends: CLI agents run as child processes and chat-completion
+// endpoints, all streaming their output while they work
+import { spawn } from "child_process";
+import { randomUUID } from "crypto";
+import Groq from "groq-sdk";
+import { getBundledBinaryPath } from "./binaries";
+import type { AgentBackendConfig } from "./config";
+
+export interface AgentOutputEvent {
+  runId: string;
+  stream: "stdout" | "stderr";
+  text: string;
+}
+
+export interface AgentRunResult {
+  runId: string;
+  exitCode: number | null; // null when the run was stopped or never started
+  stdout: string;
+  stderr: string;
+  durationMs: number;
+  cancelled: boolean;
+  timedOut: boolean;
+  error?: string; // The run could not be started or its request failed
+}
+
+export interface AgentRunOptions {
+  input?: string; // Written to stdin, which is then closed
+  timeoutMs?: number; // 0 or undefined disables the limit
+  onOutput?: (event: AgentOutputEvent) => void;
+}
+
+export type AgentPromptOptions = Omit<AgentRunOptions, "input">;
+
+export interface AgentRun {
+  id: string;
+  result: Promise<AgentRunResult>;
+  cancel: () => void;
+}
+
+// Time a process gets to exit after SIGTERM before it is killed outright
+const KILL_GRACE_MS = 3000;
+
+export function startAgentRun(
+  command: string,
+  args: string[],
+  { input, timeoutMs, onOutput }: AgentRunOptions = {},
+): AgentRun {
+  const id = randomUUID();
+  const startedAt = Date.now();
+  const child = spawn(command, args, { stdio: ["pipe", "pipe", "pipe"] });
+
+  let stdout = "";
+  let stderr = "";
+  let cancelled = false;
+  let timedOut = false;
+  let killTimer: NodeJS.Timeout | null = null;
+
+  // Ask nicely first so the agent can clean up, then force it
+  const stop = () => {
+    if (child.exitCode !== null || child.signalCode !== null || killTimer) {
+      return;
+    }
+    child.kill("SIGTERM");
+    killTimer = setTimeout(() => child.kill("SIGKILL"), KILL_GRACE_MS);
+  };
+
+  const timeoutTimer = timeoutMs
+    ? setTimeout(() => {
+        console.warn(`Agent run ${id} timed out after ${timeoutMs}ms`);
+        timedOut = true;
+        stop();
+      }, timeoutMs)
+    : null;
+
+  const result = new Promise<AgentRunResult>((resolve) => {
+    const finish = (exitCode: number | null, error?: string) => {
+      if (timeoutTimer) clearTimeout(timeoutTimer);
+      if (killTimer) clearTimeout(killTimer);
+      resolve({
+        runId: id,
+        exitCode,
+        stdout: stdout.trim(),
+        stderr: stderr.trim(),
+        durationMs: Date.now() - startedAt,
+        cancelled,
+        timedOut,
+        error,
+      });
+    };
+
+    child.stdout.on("data", (chunk) => {
+      const text = chunk.toString();
+      stdout += text;
+      onOutput?.({ runId: id, stream: "stdout", text });
+    });
+    child.stderr.on("data", (chunk) => {
+      const text = chunk.toString();
+      stderr += text;
+      onOutput?.({ runId: id, stream: "stderr", text });
+    });
+
+    child.on("error", (err) => {
+      console.error(`Agent run ${id} failed to start:`, err);
+      finish(null, err.message);
+    });
+    child.on("close", (code) => finish(code));
+  });
+
+  // The agent may exit before reading its input
+  child.stdin.on("error", (err) => {
+    console.warn(`Agent run ${id} closed stdin early:`, err.message);
+  });
+  if (input !== undefined) {
+    child.stdin.write(input);
+  }
+  child.stdin.end();
+
+  return {
+    id,
+    result,
+    cancel: () => {
+      console.log(`Cancelling agent run ${id}`);
+      cancelled = true;
+      stop();
+    },
+  };
+}
+
+/**
+ * Something that answers a prompt. Runs start immediately, stream their
+ * output through `onOutput` and always resolve with a result, failures
+ * included, so callers only have one shape to handle.
+ */
+export interface AgentBackend {
+  readonly name: string;
+  run(prompt: string, options?: AgentPromptOptions): AgentRun;
+}
+
+// The goose CLI, bundled with the app unless a command is configured
+export function createGooseBackend(config: AgentBackendConfig): AgentBackend {
+  return createCommandBackend({
+    ...config,
+    command: config.command || getBundledBinaryPath("goose"),
+  });
+}
+
+// Any CLI that reads a prompt on stdin or from its arguments and answers on stdout
+export function createCommandBackend(config: AgentBackendConfig): AgentBackend {
+  if (!config.command) {
+    throw new Error(`No command configured for the agent "${config.name}".`);
+  }
+  const command = config.command;
+
+  return {
+    name: config.name,
+    run(prompt, options = {}) {
+      const args = config.args.filter((arg) => arg !== "");
+      if (config.promptInput === "argument") {
+        // Appended when no argument has a placeholder
+        const hasPlaceholder = args.some((arg) => arg.includes("{prompt}"));
+        const withPrompt = hasPlaceholder
+          ? args.map((arg) => arg.replace("{prompt}", prompt))
+          : [...args, prompt];
+        console.log(`Running agent "${config.name}":`, command);
+        return startAgentRun(command, withPrompt, options);
+      }
+
+      console.log(`Running agent "${config.name}":`, command, args.join(" "));
+      return startAgentRun(command, args, { ...options, input: prompt });
+    },
+  };
+}
+
+export type ChatMessage = { role: "system" | "user"; content: string };
+
+export type ChatModelConfig = Pick<
+  AgentBackendConfig,
+  "model" | "baseUrl" | "apiKey"
+>;
+
+// Stream a completion from Groq, or from the OpenAI-compatible server at baseUrl
+export async function streamChatCompletion(
+  config: ChatModelConfig,
+  messages: ChatMessage[],
+  signal: AbortSignal,
+  onText: (text: string) => void,
+): Promise<void> {
+  const model = config.model || "llama-3.3-70b-versatile";
+
+  if (!config.baseUrl) {
+    const apiKey = config.apiKey || process.env.GROQ_API_KEY;
+    if (!apiKey) {
+      throw new Error("API Key not configured.");
+    }
+    const groq = new Groq({ apiKey });
+    const stream = await groq.chat.completions.create(
+      { model, messages, stream: true },
+      { signal },
+    );
+    for await (const chunk of stream) {
+      const text = chunk.choices[0]?.delta?.content;
+      if (text) onText(text);
+    }
+    return;
+  }
+
+  const endpoint = `${config.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+  const apiKey = config.apiKey || process.env.AGENT_API_KEY;
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    },
+    body: JSON.stringify({ model, messages, stream: true }),
+    signal,
+  });
+  if (!response.ok || !response.body) {
+    throw new Error(
+      `Server responded ${response.status}: ${await response.text()}`,
+    );
+  }
+
+  // Server-sent events, one `data: {...}` line per chunk
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += decoder.decode(value, { stream: true });
+    const lines = buffered.split("\n");
+    buffered = lines.pop() || "";
+    for (const line of lines) {
+      const data = line.replace(/^data:\s*/, "").trim();
+      if (!line.startsWith("data:") || data === "[DONE]") continue;
+      let chunk;
+      try {
+        chunk = JSON.parse(data);
+      } catch (error) {
+        // Keep-alives and malformed lines from some servers are skipped
+        console.warn("Skipping unreadable stream line:", data);
+        continue;
+      }
+      const text = chunk.choices?.[0]?.delta?.content;
+      if (text) onText(text);
+    }
+  }
+}
+
+// A chat-completions model, e.g. a Groq chat model through the groq-sdk
+export function createChatBackend(config: AgentBackendConfig): AgentBackend {
+  return {
+    name: config.name,
+    run(prompt, { timeoutMs, onOutput } = {}) {
+      const id = randomUUID();
+      const startedAt = Date.now();
+      const controller = new AbortController();
+      let stdout = "";
+      let cancelled = false;
+      let timedOut = false;
+
+      const timeoutTimer = timeoutMs
+        ? setTimeout(() => {
+            console.warn(`Agent run ${id} timed out after ${timeoutMs}ms`);
+            timedOut = true;
+            controller.abort();
+          }, timeoutMs)
+        : null;
+
+      const messages: ChatMessage[] = config.systemPrompt
+        ? [
+            { role: "system", content: config.systemPrompt },
+            { role: "user", content: prompt },
+          ]
+        : [{ role: "user", content: prompt }];
+
+      console.log(`Sending prompt to "${config.name}" (${config.model})...`);
+      const result = streamChatCompletion(
+        config,
+        messages,
+        controller.signal,
+        (text) => {
+          stdout += text;
+          onOutput?.({ runId: id, stream: "stdout", text });
+        },
+      )
+        .then(() => null)
+        .catch((error: Error) => (controller.signal.aborted ? null : error))
+        .then((error): AgentRunResult => {
+          if (timeoutTimer) clearTimeout(timeoutTimer);
+          if (error) console.error(`Agent run ${id} failed:`, error);
+          return {
+            runId: id,
+            // Mirrors a process: 0 on success, nothing when stopped
+            exitCode: error ? 1 : controller.signal.aborted ? null : 0,
+            stdout: stdout.trim(),
+            stderr: error ? error.message : "",
+            durationMs: Date.now() - startedAt,
+            cancelled,
+            timedOut,
+            error: error?.message,
+          };
+        });
+
+      return {
+        id,
+        result,
+        cancel: () => {
+          console.log(`Cancelling agent run ${id}`);
+          cancelled = true;
+          controller.abort();
+        },
+      };
+    },
+  };
+}
+
+export function createAgentBackend(config: AgentBackendConfig): AgentBackend {
+  switch (config.type) {
+    case "goose":
+      return createGooseBackend(config);
+    case "command":
+      return createCommandBackend(config);
+    case "chat":
+      return createChatBackend(config);
+  }
+}
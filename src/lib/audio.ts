@@ -0,0 +1,277 @@
+// lib/audio
+// Prepares recordings in the renderer before upload: 16 kHz mono, normalised,
+// trimmed and encoded to Ogg Opus, or WAV where WebCodecs cannot encode Opus
+import type { UploadFormat } from "./config";
+import { muxOggOpus, OpusPacket } from "./ogg";
+import { encodeWav } from "./wav";
+
+export interface PreparedAudio {
+  data: ArrayBuffer;
+  format: string; // File extension the main process writes the audio with
+  durationMs: number; // After trimming
+}
+
+const TARGET_RATE = 16000; // What Whisper models work at
+const OPUS_BITRATE = 24000; // Plenty for speech at 16 kHz
+const OPUS_PRE_SKIP = 312; // libopus encoder delay at 48 kHz, used when the encoder reports none
+const TARGET_PEAK = 0.9;
+const MAX_GAIN = 10; // 20 dB, boosts quiet microphones without turning hiss into speech
+const FRAME_MS = 20;
+const TRIM_LEVEL = 0.02; // Frame RMS (after normalising) below which audio counts as silence
+const TRIM_PADDING_MS = 250; // Kept around speech so word edges are not clipped
+
+// MediaRecorder types in order of preference, the first one supported is used
+const RECORDER_TYPES = [
+  "audio/webm;codecs=opus",
+  "audio/webm",
+  "audio/ogg;codecs=opus",
+  "audio/mp4",
+];
+
+const EXTENSIONS: Record<string, string> = {
+  "audio/webm": "webm",
+  "audio/ogg": "ogg",
+  "audio/mp4": "m4a",
+  "audio/wav": "wav",
+};
+
+// WebCodecs is missing from the TypeScript DOM types this repo builds with
+interface EncodedAudioChunk {
+  byteLength: number;
+  duration: number | null; // Microseconds
+  copyTo(destination: Uint8Array): void;
+}
+
+interface AudioEncoder {
+  configure(config: AudioEncoderConfig): void;
+  encode(data: unknown): void;
+  flush(): Promise<void>;
+  close(): void;
+}
+
+interface AudioEncoderConfig {
+  codec: string;
+  sampleRate: number;
+  numberOfChannels: number;
+  bitrate: number;
+}
+
+interface WebCodecs {
+  AudioEncoder?: {
+    new (init: {
+      output: (
+        chunk: EncodedAudioChunk,
+        metadata?: { decoderConfig?: { description?: BufferSource } },
+      ) => void;
+      error: (error: Error) => void;
+    }): AudioEncoder;
+    isConfigSupported(
+      config: AudioEncoderConfig,
+    ): Promise<{ supported: boolean }>;
+  };
+  AudioData?: new (init: {
+    format: "f32";
+    sampleRate: number;
+    numberOfFrames: number;
+    numberOfChannels: number;
+    timestamp: number;
+    data: Float32Array;
+  }) => { close(): void };
+}
+
+export function pickRecorderMimeType(): string | undefined {
+  const mimeType = RECORDER_TYPES.find((type) =>
+    MediaRecorder.isTypeSupported(type),
+  );
+  if (!mimeType) {
+    console.warn("No preferred recording format supported, using the default");
+  }
+  return mimeType;
+}
+
+export function extensionForMimeType(mimeType: string): string {
+  return EXTENSIONS[mimeType.split(";")[0].trim()] || "webm";
+}
+
+export function mimeTypeForExtension(extension: string): string {
+  return (
+    Object.keys(EXTENSIONS).find((type) => EXTENSIONS[type] === extension) ||
+    "audio/webm"
+  );
+}
+
+// Decode, downmix and resample in one pass; an OfflineAudioContext mixes to its channel count
+async function decodeToMono(blob: Blob): Promise<Float32Array> {
+  const encoded = await blob.arrayBuffer();
+  const context = new OfflineAudioContext(1, 1, TARGET_RATE);
+  const decoded = await context.decodeAudioData(encoded);
+  if (decoded.sampleRate === TARGET_RATE && decoded.numberOfChannels === 1) {
+    return decoded.getChannelData(0);
+  }
+
+  const length = Math.ceil(decoded.duration * TARGET_RATE);
+  if (length === 0) return new Float32Array(0);
+  const offline = new OfflineAudioContext(1, length, TARGET_RATE);
+  const source = offline.createBufferSource();
+  source.buffer = decoded;
+  source.connect(offline.destination);
+  source.start();
+  const rendered = await offline.startRendering();
+  return rendered.getChannelData(0);
+}
+
+export function normalizeGain(samples: Float32Array): Float32Array {
+  let peak = 0;
+  for (const sample of samples) peak = Math.max(peak, Math.abs(sample));
+  if (peak === 0) return samples;
+
+  const gain = Math.min(TARGET_PEAK / peak, MAX_GAIN);
+  if (Math.abs(gain - 1) < 0.05) return samples;
+  console.log(`Normalising audio gain by ${gain.toFixed(2)}x`);
+  return samples.map((sample) => sample * gain);
+}
+
+// Cut leading and trailing silence, keeping some padding around the speech
+export function trimSilence(
+  samples: Float32Array,
+  sampleRate: number,
+): Float32Array {
+  const frame = Math.round((FRAME_MS / 1000) * sampleRate);
+  const isSpeech = (start: number) => {
+    let sum = 0;
+    const end = Math.min(start + frame, samples.length);
+    for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+    return Math.sqrt(sum / (end - start)) > TRIM_LEVEL;
+  };
+
+  let first = 0;
+  while (first < samples.length && !isSpeech(first)) first += frame;
+  if (first >= samples.length) return samples; // All quiet, leave it to the model
+
+  let last = samples.length - (samples.length % frame || frame);
+  while (last > first && !isSpeech(last)) last -= frame;
+
+  const padding = Math.round((TRIM_PADDING_MS / 1000) * sampleRate);
+  return samples.subarray(
+    Math.max(0, first - padding),
+    Math.min(samples.length, last + frame + padding),
+  );
+}
+
+async function encodeOpus(samples: Float32Array): Promise<ArrayBuffer | null> {
+  const { AudioEncoder, AudioData } = window as unknown as WebCodecs;
+  if (!AudioEncoder || !AudioData) return null;
+
+  const config: AudioEncoderConfig = {
+    codec: "opus",
+    sampleRate: TARGET_RATE,
+    numberOfChannels: 1,
+    bitrate: OPUS_BITRATE,
+  };
+  const { supported } = await AudioEncoder.isConfigSupported(config);
+  if (!supported) return null;
+
+  const packets: OpusPacket[] = [];
+  let head: Uint8Array | undefined;
+  let encoderError: Error | null = null;
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      // Opus packets are 20 ms unless the encoder reports otherwise
+      const durationUs = chunk.duration ?? 20000;
+      packets.push({ data, samples: Math.round((durationUs * 48000) / 1e6) });
+
+      const description = metadata?.decoderConfig?.description;
+      if (description && !head) {
+        const bytes = ArrayBuffer.isView(description)
+          ? new Uint8Array(
+              description.buffer,
+              description.byteOffset,
+              description.byteLength,
+            )
+          : new Uint8Array(description);
+        // Only an OpusHead can be used as is, other descriptions are ignored
+        if (String.fromCharCode(...bytes.subarray(0, 8)) === "OpusHead") {
+          head = bytes;
+        }
+      }
+    },
+    error: (error) => {
+      encoderError = error;
+    },
+  });
+
+  try {
+    encoder.configure(config);
+    const audio = new AudioData({
+      format: "f32",
+      sampleRate: TARGET_RATE,
+      numberOfFrames: samples.length,
+      numberOfChannels: 1,
+      timestamp: 0,
+      data: samples,
+    });
+    encoder.encode(audio);
+    audio.close();
+    await encoder.flush();
+  } finally {
+    encoder.close();
+  }
+  if (encoderError) throw encoderError;
+  if (packets.length === 0) return null;
+
+  const ogg = muxOggOpus(
+    packets,
+    Math.round((samples.length * 48000) / TARGET_RATE),
+    {
+      channels: 1,
+      inputSampleRate: TARGET_RATE,
+      preSkip: head
+        ? new DataView(head.buffer, head.byteOffset).getUint16(10, true)
+        : OPUS_PRE_SKIP,
+      head,
+    },
+  );
+  return ogg.buffer;
+}
+
+/**
+ * Turn a MediaRecorder blob into a compact 16 kHz mono upload. Resolves null
+ * when the blob cannot be decoded, in which case the original should be sent.
+ * The first `skipMs` are dropped, e.g. the wait for speech in hands-free mode.
+ */
+export async function prepareRecording(
+  blob: Blob,
+  format: UploadFormat,
+  skipMs = 0,
+): Promise<PreparedAudio | null> {
+  let samples: Float32Array;
+  try {
+    samples = await decodeToMono(blob);
+  } catch (error) {
+    console.warn("Could not decode the recording for preprocessing:", error);
+    return null;
+  }
+
+  samples = samples.subarray(
+    Math.min(samples.length, Math.round((skipMs / 1000) * TARGET_RATE)),
+  );
+  samples = trimSilence(normalizeGain(samples), TARGET_RATE);
+  const durationMs = Math.round((samples.length / TARGET_RATE) * 1000);
+
+  if (format === "opus" && samples.length > 0) {
+    try {
+      const opus = await encodeOpus(samples);
+      if (opus) return { data: opus, format: "ogg", durationMs };
+      console.warn("Opus encoding is not available, falling back to WAV");
+    } catch (error) {
+      console.warn("Opus encoding failed, falling back to WAV:", error);
+    }
+  }
+  return {
+    data: encodeWav(samples, TARGET_RATE),
+    format: "wav",
+    durationMs,
+  };
+}
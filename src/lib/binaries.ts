@@ -0,0 +1,14 @@
+// lib/binaries
+import path from "path";
+
+const isDev = process.env.NODE_ENV === "development";
+
+// Resolve a helper executable: from PATH in development, bundled next to the app resources otherwise
+export function getBundledBinaryPath(name: string): string {
+  const executable = process.platform === "win32" ? `${name}.exe` : name;
+  if (isDev) {
+    return executable; // assume installed globally in dev
+  } else {
+    return path.join(process.resourcesPath, executable);
+  }
+}
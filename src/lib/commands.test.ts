@@ -0,0 +1,90 @@
+// lib/commands.test
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { applyCommands } from "./commands";
+import { getCommandsDefaults } from "./config";
+
+const config = getCommandsDefaults();
+
+// Transcripts as a model returns them, and the text that gets inserted
+const cases: [string, string, string][] = [
+  [
+    "punctuation words",
+    "Hello comma how are you question mark",
+    "Hello, how are you?",
+  ],
+  [
+    "punctuation the model already added",
+    "Hello, comma, world",
+    "Hello, world",
+  ],
+  ["exclamation", "That works exclamation mark", "That works!"],
+  [
+    "parentheses",
+    "see open parenthesis below close parenthesis",
+    "see (below)",
+  ],
+  [
+    "new paragraph",
+    "First point. New paragraph. Second point.",
+    "First point.\n\nSecond point.",
+  ],
+  ["new line", "Dear Sam colon new line thanks", "Dear Sam:\nThanks"],
+  [
+    "all caps up to end caps",
+    "this is all caps very important end caps okay",
+    "this is VERY IMPORTANT okay",
+  ],
+  ["all caps without end caps", "all caps nasa rocks", "NASA rocks"],
+  ["scratch that", "I like cats. I hate dogs. Scratch that.", "I like cats."],
+  [
+    "delete last sentence",
+    "Ship it today. No, tomorrow delete last sentence",
+    "Ship it today.",
+  ],
+  ["scratch that at the start", "Scratch that. Hello there", "Hello there"],
+  [
+    "literal escape",
+    "Type the word literal comma here",
+    "Type the word comma here",
+  ],
+  [
+    "literal escape with a longer phrase",
+    "say literal new paragraph aloud",
+    "say new paragraph aloud",
+  ],
+  [
+    "escape word in ordinary speech",
+    "The literal meaning of it",
+    "The literal meaning of it",
+  ],
+  ["period at the end", "I agree period", "I agree."],
+  ["period with punctuation", "I agree. Period. Thanks", "I agree. Thanks"],
+  [
+    "period inside a sentence",
+    "The grace period ended.",
+    "The grace period ended.",
+  ],
+  [
+    "colon inside a sentence",
+    "The colon is part of the gut.",
+    "The colon is part of the gut.",
+  ],
+  ["full stop before a command", "Done full stop new line", "Done.\n"],
+];
+
+describe("applyCommands", () => {
+  for (const [name, transcript, expected] of cases) {
+    it(name, () => {
+      assert.equal(applyCommands(transcript, config), expected);
+    });
+  }
+
+  it("leaves the transcript alone when disabled", () => {
+    const transcript = "Hello comma world";
+    assert.equal(
+      applyCommands(transcript, { ...config, enabled: false }),
+      transcript,
+    );
+  });
+});
@@ -0,0 +1,165 @@
+// lib/commands
+// Spoken editing commands: "comma", "new paragraph", "scratch that" and the
+// like are turned into the edits they name before a transcript is inserted
+import type { CommandRule, CommandsConfig } from "./config";
+
+interface Word {
+  raw: string; // As transcribed, with the model's punctuation
+  key: string; // Lower case without punctuation, for matching phrases
+}
+
+interface CompiledRule extends CommandRule {
+  keys: string[];
+}
+
+// Punctuation the model adds around a spoken command is dropped with it
+const TRAILING_PUNCTUATION = /[.,;:!?]+$/;
+const ATTACHES_LEFT = /^[.,;:!?)\]}%]/; // No space before it
+const ATTACHES_RIGHT = /[([{]$/; // No space after it
+const SENTENCE_END = /[.!?]$/;
+
+function toKey(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, "");
+}
+
+function toKeys(phrase: string): string[] {
+  return phrase.split(/\s+/).map(toKey).filter(Boolean);
+}
+
+/**
+ * Apply the command grammar to a transcript. Commands are matched word by
+ * word, longest phrase first, and everything else is kept as transcribed.
+ * The escape phrase types the command after it as plain words.
+ */
+export function applyCommands(text: string, config: CommandsConfig): string {
+  if (!config.enabled) return text;
+
+  const rules: CompiledRule[] = config.rules
+    .map((rule) => ({ ...rule, keys: toKeys(rule.phrase) }))
+    .filter(({ keys }) => keys.length > 0)
+    .sort((a, b) => b.keys.length - a.keys.length);
+  const escape = toKeys(config.escapePhrase);
+  const words: Word[] = text
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((raw) => ({ raw, key: toKey(raw) }));
+
+  const startsWith = (index: number, keys: string[]) =>
+    keys.length > 0 &&
+    keys.every((key, offset) => words[index + offset]?.key === key);
+  const startsRule = (index: number) =>
+    rules.find(({ keys }) => startsWith(index, keys));
+  // The transcript ends, the model put punctuation or another command follows
+  const endsPhrase = (next: number) =>
+    next >= words.length ||
+    TRAILING_PUNCTUATION.test(words[next - 1].raw) ||
+    !!startsRule(next);
+  const matchRule = (index: number) =>
+    rules.find(
+      ({ keys, endOfPhrase }) =>
+        startsWith(index, keys) &&
+        (!endOfPhrase || endsPhrase(index + keys.length)),
+    );
+
+  let output = "";
+  let attachNext = false; // After an opening bracket
+  let capitalizeNext = false; // After a sentence or line ended by a command
+  let caps: "word" | "span" | null = null;
+
+  const appendWord = (raw: string) => {
+    let word = raw;
+    if (caps) {
+      word = word.toUpperCase();
+    } else if (capitalizeNext) {
+      word = word.charAt(0).toUpperCase() + word.slice(1);
+    }
+    const separator = !output || output.endsWith("\n") || attachNext ? "" : " ";
+    output += separator + word;
+    if (caps === "word") caps = null;
+    capitalizeNext = false;
+    attachNext = false;
+  };
+
+  const insertText = (value: string) => {
+    if (!value) return;
+    if (ATTACHES_LEFT.test(value)) {
+      // "Hello, comma, world" must not become "Hello,, world"
+      output = output.replace(TRAILING_PUNCTUATION, "") + value;
+    } else {
+      appendWord(value);
+    }
+    if (ATTACHES_RIGHT.test(value)) attachNext = true;
+    if (SENTENCE_END.test(value)) capitalizeNext = true;
+  };
+
+  const breakLine = (value: string) => {
+    output += value;
+    attachNext = false;
+    capitalizeNext = true;
+  };
+
+  // Back to the end of the sentence before the last one, or to the start
+  const deleteSentence = () => {
+    const trimmed = output.replace(/\s+$/, "");
+    let end = trimmed.length - 1;
+    while (end > 0 && !/[.!?\n]/.test(trimmed[end - 1])) end--;
+    output = trimmed.slice(0, Math.max(end, 0));
+    attachNext = false;
+    capitalizeNext = true;
+    caps = null;
+  };
+
+  for (let index = 0; index < words.length;) {
+    // Only an escape right before a command, "the literal meaning" is kept
+    const escaped =
+      startsWith(index, escape) && startsRule(index + escape.length);
+    if (escaped) {
+      index += escape.length;
+      const count = escaped.keys.length;
+      words.slice(index, index + count).forEach(({ raw }) => appendWord(raw));
+      index += count;
+      continue;
+    }
+
+    const rule = matchRule(index);
+    if (!rule) {
+      appendWord(words[index].raw);
+      index++;
+      continue;
+    }
+    index += rule.keys.length;
+
+    switch (rule.action) {
+      case "insert":
+        insertText(rule.text || "");
+        break;
+      case "new-line":
+        breakLine("\n");
+        break;
+      case "new-paragraph":
+        breakLine("\n\n");
+        break;
+      case "caps": {
+        // Without a matching "end caps" only the next word is upper case
+        const closed = words.some(
+          (_, later) =>
+            later >= index &&
+            rules.some(
+              ({ action, keys }) =>
+                action === "end-caps" && startsWith(later, keys),
+            ),
+        );
+        caps = closed ? "span" : "word";
+        break;
+      }
+      case "end-caps":
+        caps = null;
+        break;
+      case "delete-sentence":
+        deleteSentence();
+        break;
+    }
+  }
+
+  return output;
+}
@@ -0,0 +1,497 @@
+// lib/config
+// Configuration types for the main process. The defaults are read from the
+// environment (.env is loaded by dotenv in index.ts) and seed the settings store.
+
+export type TranscriptionProviderName =
+  "groq" | "openai" | "local" | "whisper-cpp";
+
+export interface TranscriptionConfig {
+  provider: TranscriptionProviderName;
+  model: string;
+  apiKey?: string; // Empty to use GROQ_API_KEY / TRANSCRIPTION_API_KEY from the environment
+  baseUrl?: string; // OpenAI-compatible endpoints, e.g. http://localhost:8000/v1
+  language?: string; // ISO-639-1 code such as "de", detected per recording when empty
+  command?: string; // Local engine executable
+  args: string[]; // Local engine arguments, "{file}", "{model}", "{language}" and "{prompt}" substituted
+  modelPath?: string; // whisper.cpp ggml model file
+  threads?: number; // whisper.cpp worker threads
+  ffmpegPath?: string; // Used to convert recordings to 16 kHz WAV for whisper.cpp
+  segmentSeconds: number; // Longer recordings are split into parts of about this length
+  segmentOverlapSeconds: number;
+  segmentConcurrency: number; // Parts transcribed at the same time
+}
+
+export const TRANSCRIPTION_PROVIDERS: TranscriptionProviderName[] = [
+  "groq",
+  "openai",
+  "local",
+  "whisper-cpp",
+];
+
+// Split a space separated argument string, keeping "quoted values" together
+export function splitArgs(value: string): string[] {
+  const matches = value.match(/"[^"]*"|'[^']*'|\S+/g) || [];
+  return matches.map((arg) => arg.replace(/^(["'])(.*)\1$/, "$2"));
+}
+
+// Without an explicit provider, fall back to the offline engine when there is no Groq key
+function getDefaultTranscriptionProvider(): TranscriptionProviderName {
+  if (!process.env.GROQ_API_KEY && process.env.WHISPER_MODEL_PATH) {
+    return "whisper-cpp";
+  }
+  return "groq";
+}
+
+export function getTranscriptionDefaults(): TranscriptionConfig {
+  let provider = (process.env.TRANSCRIPTION_PROVIDER ||
+    getDefaultTranscriptionProvider()) as TranscriptionProviderName;
+  if (!TRANSCRIPTION_PROVIDERS.includes(provider)) {
+    console.warn(`Unknown transcription provider: ${provider}`);
+    provider = getDefaultTranscriptionProvider();
+  }
+
+  return {
+    provider,
+    model: process.env.TRANSCRIPTION_MODEL || "whisper-large-v3",
+    baseUrl: process.env.TRANSCRIPTION_BASE_URL,
+    language: process.env.TRANSCRIPTION_LANGUAGE,
+    command:
+      provider === "whisper-cpp"
+        ? process.env.WHISPER_CPP_PATH
+        : process.env.TRANSCRIPTION_COMMAND,
+    args: splitArgs(process.env.TRANSCRIPTION_ARGS || "{file}"),
+    modelPath: process.env.WHISPER_MODEL_PATH,
+    threads: process.env.WHISPER_THREADS
+      ? Number(process.env.WHISPER_THREADS)
+      : undefined,
+    ffmpegPath: process.env.FFMPEG_PATH,
+    segmentSeconds: Number(process.env.SEGMENT_SECONDS || 120),
+    segmentOverlapSeconds: 2,
+    segmentConcurrency: Number(process.env.SEGMENT_CONCURRENCY || 3),
+  };
+}
+
+export type InsertionStrategyName =
+  "clipboard-paste" | "xdotool" | "ydotool" | "clipboard";
+
+export interface InsertionConfig {
+  strategy: InsertionStrategyName;
+  restoreDelayMs: number; // How long to wait before restoring the user's clipboard
+}
+
+export const INSERTION_STRATEGIES: InsertionStrategyName[] = [
+  "clipboard-paste",
+  "xdotool",
+  "ydotool",
+  "clipboard",
+];
+
+export function getInsertionDefaults(): InsertionConfig {
+  let strategy = (process.env.INSERTION_STRATEGY ||
+    "clipboard-paste") as InsertionStrategyName;
+  if (!INSERTION_STRATEGIES.includes(strategy)) {
+    console.warn(`Unknown insertion strategy: ${strategy}`);
+    strategy = "clipboard-paste";
+  }
+
+  return {
+    strategy,
+    restoreDelayMs: Number(process.env.INSERTION_RESTORE_DELAY_MS || 300),
+  };
+}
+
+// How a recording is encoded for upload after preprocessing
+export type UploadFormat = "opus" | "wav";
+
+export const UPLOAD_FORMATS: UploadFormat[] = ["opus", "wav"];
+
+export interface RecordingConfig {
+  handsFree: boolean; // Start on speech and stop on silence after a single shortcut press
+  silenceThreshold: number; // Average analyser level (0-255) counted as speech
+  silenceDurationMs: number;
+  minSpeechMs: number; // Recordings with less speech than this are discarded
+  maxWaitMs: number; // Hands-free: give up when nobody speaks for this long
+  minRecordingDurationMs: number; // Keeps recording briefly after the stop request
+  inputDeviceId?: string; // Microphone to record from, the system default when unset
+  inputDeviceLabel?: string; // Finds the microphone again when its id changed
+  preprocess: boolean; // 16 kHz mono, normalised and trimmed before upload
+  uploadFormat: UploadFormat; // Opus falls back to WAV where it cannot be encoded
+}
+
+export function getRecordingDefaults(): RecordingConfig {
+  return {
+    handsFree: process.env.HANDS_FREE === "true",
+    silenceThreshold: Number(process.env.VAD_THRESHOLD || 10),
+    silenceDurationMs: Number(process.env.VAD_SILENCE_MS || 1500),
+    minSpeechMs: Number(process.env.VAD_MIN_SPEECH_MS || 300),
+    maxWaitMs: Number(process.env.VAD_MAX_WAIT_MS || 8000),
+    minRecordingDurationMs: 100,
+    inputDeviceLabel: process.env.MICROPHONE,
+    preprocess: process.env.PREPROCESS_AUDIO !== "false",
+    uploadFormat: process.env.UPLOAD_FORMAT === "wav" ? "wav" : "opus",
+  };
+}
+
+export type ShortcutAction =
+  | "toggle-dictation"
+  | "translate-dictation" // Dictation in any language, inserted in English
+  | "cancel-dictation"
+  | "ask-agent"
+  | "reinsert-last"
+  | "insert-raw"; // The last transcript as it was before the cleanup pass
+
+export const SHORTCUT_ACTIONS: ShortcutAction[] = [
+  "toggle-dictation",
+  "translate-dictation",
+  "cancel-dictation",
+  "ask-agent",
+  "reinsert-last",
+  "insert-raw",
+];
+
+export type ShortcutMode = "toggle" | "push-to-talk";
+
+export interface ShortcutBinding {
+  action: ShortcutAction;
+  accelerator: string; // Electron accelerator, e.g. CommandOrControl+Shift+X
+  mode: ShortcutMode; // Only meaningful for the recording actions
+  agentBackend?: string; // ask-agent: id of the backend, the default one when unset
+}
+
+export interface ShortcutConfig {
+  bindings: ShortcutBinding[];
+  // Push-to-talk: the chord counts as released when key repeats stop for this long
+  releaseDelayMs: number;
+  // The first key repeat arrives later than the following ones
+  initialReleaseDelayMs: number;
+}
+
+const SHORTCUT_ENV: [ShortcutAction, string, string][] = [
+  ["toggle-dictation", "SHORTCUT_DICTATION", "CommandOrControl+Shift+x"],
+  ["translate-dictation", "SHORTCUT_TRANSLATE", ""],
+  ["cancel-dictation", "SHORTCUT_CANCEL", ""],
+  ["ask-agent", "SHORTCUT_ASK_AGENT", ""],
+  ["reinsert-last", "SHORTCUT_REINSERT_LAST", ""],
+  ["insert-raw", "SHORTCUT_INSERT_RAW", ""],
+];
+
+export function getShortcutDefaults(): ShortcutConfig {
+  const mode: ShortcutMode =
+    process.env.SHORTCUT_MODE === "push-to-talk" ? "push-to-talk" : "toggle";
+
+  return {
+    bindings: SHORTCUT_ENV.map(([action, variable, fallback]) => ({
+      action,
+      accelerator: process.env[variable] ?? fallback,
+      mode,
+    })).filter((binding) => binding.accelerator !== ""),
+    releaseDelayMs: Number(process.env.PUSH_TO_TALK_RELEASE_MS || 200),
+    initialReleaseDelayMs: Number(
+      process.env.PUSH_TO_TALK_INITIAL_RELEASE_MS || 700,
+    ),
+  };
+}
+
+export type AgentBackendType = "goose" | "command" | "chat";
+
+export const AGENT_BACKEND_TYPES: AgentBackendType[] = [
+  "goose",
+  "command",
+  "chat",
+];
+
+export interface AgentBackendConfig {
+  id: string; // Referenced by ask-agent shortcut bindings
+  name: string;
+  type: AgentBackendType;
+  command?: string; // goose: the bundled binary when empty
+  args: string[]; // goose and command, "{prompt}" is substituted in argument mode
+  promptInput: "stdin" | "argument"; // How the prompt reaches the command
+  model?: string; // chat
+  baseUrl?: string; // chat: OpenAI-compatible endpoint, Groq through the groq-sdk when empty
+  apiKey?: string; // chat: empty to use GROQ_API_KEY / AGENT_API_KEY from the environment
+  systemPrompt?: string; // chat
+}
+
+export interface AgentConfig {
+  timeoutMs: number; // Agent runs are stopped after this long, 0 disables the limit
+  defaultBackend: string; // Used by ask-agent bindings without a backend of their own
+  backends: AgentBackendConfig[];
+}
+
+export function getAgentDefaults(): AgentConfig {
+  const backends: AgentBackendConfig[] = [
+    {
+      id: "goose",
+      name: "Goose",
+      type: "goose",
+      command: process.env.GOOSE_PATH,
+      args: ["run", "--instructions", "-"], // "-" reads the instructions from stdin
+      promptInput: "stdin",
+    },
+    {
+      id: "chat",
+      name: "Groq chat",
+      type: "chat",
+      args: [],
+      promptInput: "stdin",
+      model: process.env.AGENT_CHAT_MODEL || "llama-3.3-70b-versatile",
+      baseUrl: process.env.AGENT_CHAT_BASE_URL,
+    },
+  ];
+  if (process.env.AGENT_COMMAND) {
+    backends.push({
+      id: "command",
+      name: "Custom command",
+      type: "command",
+      command: process.env.AGENT_COMMAND,
+      args: splitArgs(process.env.AGENT_ARGS || ""),
+      promptInput:
+        process.env.AGENT_PROMPT_INPUT === "argument" ? "argument" : "stdin",
+    });
+  }
+
+  return {
+    timeoutMs: Number(process.env.AGENT_TIMEOUT_MS || 5 * 60 * 1000),
+    defaultBackend: process.env.AGENT_BACKEND || "goose",
+    backends,
+  };
+}
+
+export type SpeechEngineName = "system" | "piper";
+
+export const SPEECH_ENGINES: SpeechEngineName[] = ["system", "piper"];
+
+export interface SpeechConfig {
+  enabled: boolean; // Read agent answers aloud
+  engine: SpeechEngineName; // Chromium speechSynthesis voices, or piper run locally
+  voice?: string; // system: voice name, the default voice when empty
+  rate: number; // 1 is the normal speed
+  maxLength: number; // Longer answers are cut at a sentence boundary
+  piperPath?: string; // The bundled piper when empty
+  piperModel?: string; // piper: .onnx voice model
+}
+
+export function getSpeechDefaults(): SpeechConfig {
+  let engine = (process.env.TTS_ENGINE || "system") as SpeechEngineName;
+  if (!SPEECH_ENGINES.includes(engine)) {
+    console.warn(`Unknown speech engine: ${engine}`);
+    engine = "system";
+  }
+
+  return {
+    enabled: process.env.TTS_ENABLED === "true",
+    engine,
+    voice: process.env.TTS_VOICE,
+    rate: Number(process.env.TTS_RATE || 1),
+    maxLength: Number(process.env.TTS_MAX_LENGTH || 1000),
+    piperPath: process.env.PIPER_PATH,
+    piperModel: process.env.PIPER_MODEL,
+  };
+}
+
+export interface WakeWordConfig {
+  enabled: boolean; // Listen for the wake phrase whenever the app is idle
+  phrase: string;
+  target: "insert" | "agent"; // What the dictation started by the phrase does
+  modelPath?: string; // whisper.cpp model used for spotting, a tiny model keeps it light
+  threshold: number; // Average level (0-255) that counts as someone speaking
+}
+
+export function getWakeWordDefaults(): WakeWordConfig {
+  return {
+    enabled: process.env.WAKE_WORD_ENABLED === "true",
+    phrase: process.env.WAKE_WORD_PHRASE || "hey seery",
+    target: process.env.WAKE_WORD_TARGET === "agent" ? "agent" : "insert",
+    modelPath: process.env.WAKE_WORD_MODEL_PATH,
+    threshold: Number(process.env.WAKE_WORD_THRESHOLD || 12),
+  };
+}
+
+export interface ReplacementRule {
+  from: string; // Text to find, or a regular expression when `regex` is set
+  to: string; // Regex rules can use $1 for groups
+  caseSensitive: boolean;
+  regex: boolean;
+}
+
+// Terms and fixes for one context; the "default" profile always applies
+export interface VocabularyProfile {
+  id: string;
+  name: string;
+  terms: string[]; // Names and jargon passed to the model as its prompt
+  replacements: ReplacementRule[]; // Applied to the transcript, in order
+}
+
+export interface VocabularyConfig {
+  profile: string; // Id of the profile used on top of the default one
+  profiles: VocabularyProfile[];
+}
+
+export const DEFAULT_VOCABULARY_PROFILE = "default";
+
+export function getVocabularyDefaults(): VocabularyConfig {
+  return {
+    profile: DEFAULT_VOCABULARY_PROFILE,
+    profiles: [
+      {
+        id: DEFAULT_VOCABULARY_PROFILE,
+        name: "Everywhere",
+        // Comma separated, e.g. VOCABULARY="Seery, Groq, whisper.cpp"
+        terms: (process.env.VOCABULARY || "")
+          .split(",")
+          .map((term) => term.trim())
+          .filter(Boolean),
+        replacements: [],
+      },
+    ],
+  };
+}
+
+// What a spoken command does to the transcript around it
+export type CommandAction =
+  | "insert" // Types `text`, punctuation attaches to the previous word
+  | "new-line"
+  | "new-paragraph"
+  | "caps" // Upper case up to "end-caps", or just the next word without one
+  | "end-caps"
+  | "delete-sentence"; // Removes the sentence dictated before the command
+
+export const COMMAND_ACTIONS: CommandAction[] = [
+  "insert",
+  "new-line",
+  "new-paragraph",
+  "caps",
+  "end-caps",
+  "delete-sentence",
+];
+
+export interface CommandRule {
+  phrase: string; // Spoken words, matched ignoring case and punctuation
+  action: CommandAction;
+  text?: string; // For "insert"
+  // Only a command where a phrase ends, for words also used in speech:
+  // "I agree period" types a full stop, "the grace period ended" is kept
+  endOfPhrase?: boolean;
+}
+
+export interface CommandsConfig {
+  enabled: boolean;
+  escapePhrase: string; // Types the command after it as words, e.g. "literal comma"
+  rules: CommandRule[];
+}
+
+const insert = (
+  phrase: string,
+  text: string,
+  endOfPhrase?: boolean,
+): CommandRule => ({
+  phrase,
+  action: "insert",
+  text,
+  endOfPhrase,
+});
+
+export function getCommandsDefaults(): CommandsConfig {
+  return {
+    enabled: process.env.SPOKEN_COMMANDS !== "false",
+    escapePhrase: "literal",
+    rules: [
+      insert("period", ".", true),
+      insert("full stop", ".", true),
+      insert("comma", ","),
+      insert("question mark", "?"),
+      insert("exclamation mark", "!"),
+      insert("exclamation point", "!"),
+      insert("colon", ":", true),
+      insert("semicolon", ";"),
+      insert("open parenthesis", "("),
+      insert("close parenthesis", ")"),
+      { phrase: "new line", action: "new-line" },
+      { phrase: "newline", action: "new-line" }, // How models often write it
+      { phrase: "new paragraph", action: "new-paragraph" },
+      { phrase: "all caps", action: "caps" },
+      { phrase: "end caps", action: "end-caps" },
+      { phrase: "scratch that", action: "delete-sentence" },
+      { phrase: "delete last sentence", action: "delete-sentence" },
+    ],
+  };
+}
+
+// How a chat model rewrites a dictation before it is inserted
+export type CleanupStyle =
+  "verbatim" | "prose" | "email" | "notes" | "commit" | "comment";
+
+export const CLEANUP_STYLES: CleanupStyle[] = [
+  "verbatim",
+  "prose",
+  "email",
+  "notes",
+  "commit",
+  "comment",
+];
+
+export const CLEANUP_STYLE_LABELS: Record<CleanupStyle, string> = {
+  verbatim: "Verbatim (no cleanup)",
+  prose: "Cleaned prose",
+  email: "Email",
+  notes: "Bullet notes",
+  commit: "Commit message",
+  comment: "Code comment",
+};
+
+export interface CleanupConfig {
+  style: CleanupStyle; // "verbatim" skips the cleanup pass
+  model: string;
+  baseUrl?: string; // OpenAI-compatible endpoint, Groq through the groq-sdk when empty
+  apiKey?: string; // Empty to use GROQ_API_KEY / CLEANUP_API_KEY from the environment
+  timeoutMs: number; // The transcript is inserted as it is when the model takes longer
+}
+
+export function getCleanupDefaults(): CleanupConfig {
+  let style = (process.env.CLEANUP_STYLE || "verbatim") as CleanupStyle;
+  if (!CLEANUP_STYLES.includes(style)) {
+    console.warn(`Unknown cleanup style: ${style}`);
+    style = "verbatim";
+  }
+
+  return {
+    style,
+    model: process.env.CLEANUP_MODEL || "llama-3.1-8b-instant",
+    baseUrl: process.env.CLEANUP_BASE_URL,
+    timeoutMs: Number(process.env.CLEANUP_TIMEOUT_MS || 15000),
+  };
+}
+
+// Settings that apply while dictating into matching applications
+export interface DictationProfile {
+  id: string; // Recorded in the history of each transcript
+  name: string;
+  appPattern: string; // Regular expression for the application (X11 WM_CLASS), any case
+  titlePattern: string; // Regular expression for the window title, any case
+  insertionStrategy?: InsertionStrategyName; // The global settings when unset
+  cleanupStyle?: CleanupStyle;
+  vocabularyProfile?: string;
+}
+
+export interface ProfilesConfig {
+  enabled: boolean; // Look at the focused window when a dictation starts
+  profiles: DictationProfile[]; // The first match is used
+}
+
+export function getProfilesDefaults(): ProfilesConfig {
+  return {
+    enabled: process.env.DICTATION_PROFILES !== "false",
+    profiles: [
+      {
+        id: "terminal",
+        name: "Terminal",
+        appPattern:
+          "terminal|konsole|xterm|kitty|alacritty|wezterm|tilix|terminator",
+        titlePattern: "",
+        insertionStrategy: "xdotool", // Terminals paste with Ctrl+Shift+V
+        cleanupStyle: "verbatim", // Commands go in as spoken, even with a cleanup style set
+      },
+    ],
+  };
+}
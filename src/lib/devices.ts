@@ -0,0 +1,55 @@
+// lib/devices
+// Microphone selection in the renderer: the saved choice is matched by id, then by label
+
+export interface InputDevicePreference {
+  deviceId?: string; // Ids can change between sessions or after replugging
+  label?: string; // Used to find the same microphone again when the id changed
+}
+
+export interface ResolvedInputDevice {
+  deviceId: string | null; // null for the system default
+  label: string;
+  fallback: boolean; // The preferred device is not connected
+}
+
+export async function listInputDevices(): Promise<MediaDeviceInfo[]> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter((device) => device.kind === "audioinput");
+}
+
+// The preferred device when it is connected, the system default otherwise
+export async function resolveInputDevice(
+  preference: InputDevicePreference,
+): Promise<ResolvedInputDevice> {
+  const devices = await listInputDevices();
+  const defaultDevice = devices.find((device) => device.deviceId === "default");
+  const systemDefault: Omit<ResolvedInputDevice, "fallback"> = {
+    deviceId: null,
+    label: defaultDevice?.label || devices[0]?.label || "System default",
+  };
+  if (!preference.deviceId && !preference.label) {
+    return { ...systemDefault, fallback: false };
+  }
+
+  const match =
+    devices.find((device) => device.deviceId === preference.deviceId) ||
+    devices.find(
+      (device) => preference.label && device.label === preference.label,
+    );
+  if (match) {
+    return { deviceId: match.deviceId, label: match.label, fallback: false };
+  }
+
+  console.warn(
+    `Microphone ${preference.label || preference.deviceId} is not connected, using the default`,
+  );
+  return { ...systemDefault, fallback: true };
+}
+
+export function getAudioConstraints(
+  device: ResolvedInputDevice,
+): MediaStreamConstraints {
+  return {
+    audio: device.deviceId ? { deviceId: { exact: device.deviceId } } : true,
+  };
+}
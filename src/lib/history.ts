@@ -0,0 +1,207 @@
+// lib/history
+// Local store of past dictations: history.json plus optional audio files in userData
+import { app } from "electron";
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { CleanupStyle } from "./config";
+
+export interface HistoryEntry {
+  id: string;
+  text: string;
+  createdAt: number; // Unix time in ms
+  durationMs?: number; // Length of the recording
+  provider: string; // Transcription provider that produced the text
+  rawText?: string; // The transcript before the cleanup pass rewrote it
+  style?: CleanupStyle; // Cleanup style that produced `text`
+  profile?: string; // Name of the dictation profile chosen for the focused application
+  language?: string; // Spoken language, as detected by the transcription engine
+  translated?: boolean; // Translated to English by the translate shortcut
+  audioPath?: string; // Only when audio retention is enabled
+}
+
+export interface HistorySettings {
+  enabled: boolean;
+  keepAudio: boolean;
+  maxEntries: number; // 0 keeps everything
+  maxAgeDays: number; // 0 keeps everything
+}
+
+export interface HistoryQuery {
+  query?: string;
+  limit?: number;
+  offset?: number;
+}
+
+let entries: HistoryEntry[] | null = null;
+// Callers arriving during the first read share it, so they all get one list
+let loading: Promise<HistoryEntry[]> | null = null;
+// Writes are chained so concurrent dictations never interleave on disk
+let writeQueue: Promise<void> = Promise.resolve();
+
+function getHistoryPath(): string {
+  return path.join(app.getPath("userData"), "history.json");
+}
+
+function getRecordingsDir(): string {
+  return path.join(app.getPath("userData"), "recordings");
+}
+
+function loadEntries(): Promise<HistoryEntry[]> {
+  if (entries) return Promise.resolve(entries);
+  if (!loading) loading = readEntries();
+  return loading;
+}
+
+async function readEntries(): Promise<HistoryEntry[]> {
+  try {
+    entries = JSON.parse(await fs.promises.readFile(getHistoryPath(), "utf8"));
+  } catch (error: any) {
+    if (error.code !== "ENOENT") {
+      console.error("Failed to read history, starting empty:", error);
+    }
+    entries = [];
+  }
+  return entries as HistoryEntry[];
+}
+
+function saveEntries(): Promise<void> {
+  const snapshot = JSON.stringify(entries || []);
+  writeQueue = writeQueue
+    .then(async () => {
+      const historyPath = getHistoryPath();
+      await fs.promises.writeFile(`${historyPath}.tmp`, snapshot);
+      await fs.promises.rename(`${historyPath}.tmp`, historyPath);
+    })
+    .catch((error) => console.error("Failed to write history:", error));
+  return writeQueue;
+}
+
+async function removeAudio(entry: HistoryEntry): Promise<void> {
+  if (entry.audioPath) {
+    await fs.promises.unlink(entry.audioPath).catch(() => undefined);
+  }
+}
+
+export async function addHistoryEntry(
+  values: Omit<HistoryEntry, "id" | "createdAt" | "audioPath">,
+  audio: Buffer | null,
+  settings: HistorySettings,
+  audioFormat = "webm", // Extension the audio is stored with
+): Promise<HistoryEntry | null> {
+  if (!settings.enabled) return null;
+
+  const entry: HistoryEntry = {
+    ...values,
+    id: randomUUID(),
+    createdAt: Date.now(),
+  };
+  if (audio && settings.keepAudio) {
+    await fs.promises.mkdir(getRecordingsDir(), { recursive: true });
+    entry.audioPath = path.join(
+      getRecordingsDir(),
+      `${entry.id}.${audioFormat}`,
+    );
+    await fs.promises.writeFile(entry.audioPath, audio);
+  }
+
+  // Looked up after the audio write, retention may have replaced the list since
+  (await loadEntries()).unshift(entry); // Newest first
+  await applyRetention(settings);
+  return entry;
+}
+
+// Lower-cased words, so "Hello, world" matches the query "world hel"
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}_'-]+/gu) || [];
+}
+
+/**
+ * Newest entries first, or, with a query, the entries containing every query
+ * term (as a word prefix), best matches first.
+ */
+export async function listHistory({
+  query = "",
+  limit = 50,
+  offset = 0,
+}: HistoryQuery = {}): Promise<HistoryEntry[]> {
+  const all = await loadEntries();
+  const terms = tokenize(query);
+  if (terms.length === 0) {
+    return all.slice(offset, offset + limit);
+  }
+
+  return all
+    .map((entry) => {
+      // The original wording is searched too, the cleanup may have changed it
+      const words = tokenize(`${entry.text} ${entry.rawText || ""}`);
+      let score = 0;
+      for (const term of terms) {
+        const hits = words.filter((word) => word.startsWith(term)).length;
+        if (hits === 0) return null;
+        score += hits;
+      }
+      return { entry, score };
+    })
+    .filter((match): match is { entry: HistoryEntry; score: number } => !!match)
+    .sort((a, b) => b.score - a.score || b.entry.createdAt - a.entry.createdAt)
+    .slice(offset, offset + limit)
+    .map((match) => match.entry);
+}
+
+export async function getHistoryEntry(
+  id: string,
+): Promise<HistoryEntry | undefined> {
+  return (await loadEntries()).find((entry) => entry.id === id);
+}
+
+export async function readHistoryAudio(id: string): Promise<Buffer | null> {
+  const entry = await getHistoryEntry(id);
+  if (!entry?.audioPath) return null;
+  return fs.promises.readFile(entry.audioPath).catch(() => null);
+}
+
+export async function deleteHistoryEntry(id: string): Promise<boolean> {
+  const all = await loadEntries();
+  const index = all.findIndex((entry) => entry.id === id);
+  if (index === -1) return false;
+
+  const [entry] = all.splice(index, 1);
+  await removeAudio(entry);
+  await saveEntries();
+  return true;
+}
+
+// Drop entries beyond the configured count or age, and their audio
+export async function applyRetention(settings: HistorySettings): Promise<void> {
+  const all = await loadEntries();
+  const cutoff =
+    settings.maxAgeDays > 0
+      ? Date.now() - settings.maxAgeDays * 24 * 60 * 60 * 1000
+      : 0;
+
+  // Decide synchronously so entries added meanwhile are not lost
+  const kept: HistoryEntry[] = [];
+  const dropped: HistoryEntry[] = [];
+  for (const entry of all) {
+    const tooMany =
+      settings.maxEntries > 0 && kept.length >= settings.maxEntries;
+    if (tooMany || entry.createdAt < cutoff) {
+      dropped.push(entry);
+    } else if (!settings.keepAudio && entry.audioPath) {
+      dropped.push(entry);
+      kept.push({ ...entry, audioPath: undefined });
+    } else {
+      kept.push(entry);
+    }
+  }
+  entries = kept;
+  await Promise.all(dropped.map(removeAudio));
+
+  if (kept.length !== all.length) {
+    console.log(
+      `History retention removed ${all.length - kept.length} entries`,
+    );
+  }
+  await saveEntries();
+}
@@ -32,6 +32,13 @@ export const svgMap = {
     </defs>
     </svg>
   ),
+  error: (
+    <svg width="60" height="60" viewBox="0 0 60 60" fill="none" xmlns="http://www.w3.org/2000/svg">
+    <circle cx="30" cy="30" r="29.5" fill="#c0392b" stroke="#c0392b"/>
+    <rect x="27" y="14" width="6" height="22" rx="3" fill="white"/>
+    <circle cx="30" cy="44" r="3.5" fill="white"/>
+    </svg>
+  ),
 };
 
 export const blurVariants = {
@@ -0,0 +1,174 @@
+// lib/insertion
+// Puts dictated text into whichever application currently has keyboard focus
+import { clipboard, nativeImage } from "electron";
+import type { InsertionConfig, InsertionStrategyName } from "./config";
+import { runCommand } from "./process";
+
+export interface InsertionResult {
+  success: boolean;
+  strategy: InsertionStrategyName; // The strategy that actually inserted the text
+  fallback: boolean; // True when the configured strategy failed
+  message: string;
+}
+
+interface InsertionStrategy {
+  readonly name: InsertionStrategyName;
+  insert(text: string): Promise<void>;
+}
+
+const isWayland = () =>
+  process.platform === "linux" && !!process.env.WAYLAND_DISPLAY;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Press the platform paste chord in the focused application
+async function sendPasteKeystroke(): Promise<void> {
+  switch (process.platform) {
+    case "darwin":
+      await runCommand("osascript", [
+        "-e",
+        'tell application "System Events" to keystroke "v" using command down',
+      ]);
+      return;
+    case "win32":
+      await runCommand("powershell", [
+        "-NoProfile",
+        "-Command",
+        "Add-Type -AssemblyName System.Windows.Forms; [System.Windows.Forms.SendKeys]::SendWait('^v')",
+      ]);
+      return;
+    default:
+      if (isWayland()) {
+        // Linux input event codes: 29 = left ctrl, 47 = v
+        await runCommand("ydotool", ["key", "29:1", "47:1", "47:0", "29:0"]);
+      } else {
+        await runCommand("xdotool", ["key", "--clearmodifiers", "ctrl+v"]);
+      }
+  }
+}
+
+// Paste through the clipboard, then put back whatever the user had copied
+function createClipboardPasteStrategy(
+  config: InsertionConfig,
+): InsertionStrategy {
+  return {
+    name: "clipboard-paste",
+    async insert(text) {
+      const image = clipboard.readImage();
+      const previous = {
+        text: clipboard.readText(),
+        html: clipboard.readHTML(),
+        rtf: clipboard.readRTF(),
+        image: image.isEmpty() ? undefined : image,
+      };
+
+      clipboard.writeText(text);
+      try {
+        await sendPasteKeystroke();
+        // Give the target application time to read the clipboard before restoring it
+        await wait(config.restoreDelayMs);
+      } finally {
+        if (previous.text || previous.html || previous.rtf || previous.image) {
+          clipboard.write({
+            ...previous,
+            image: previous.image || nativeImage.createEmpty(),
+          });
+        } else {
+          clipboard.clear();
+        }
+      }
+    },
+  };
+}
+
+// Synthesise key presses for every character (X11)
+function createXdotoolStrategy(): InsertionStrategy {
+  return {
+    name: "xdotool",
+    async insert(text) {
+      await runCommand("xdotool", [
+        "type",
+        "--clearmodifiers",
+        "--delay",
+        "0",
+        "--",
+        text,
+      ]);
+    },
+  };
+}
+
+// Synthesise key presses through the uinput daemon (Wayland and X11)
+function createYdotoolStrategy(): InsertionStrategy {
+  return {
+    name: "ydotool",
+    async insert(text) {
+      await runCommand("ydotool", ["type", "--", text]);
+    },
+  };
+}
+
+// Last resort: leave the text on the clipboard for the user to paste
+function createClipboardStrategy(): InsertionStrategy {
+  return {
+    name: "clipboard",
+    async insert(text) {
+      clipboard.writeText(text);
+    },
+  };
+}
+
+function createInsertionStrategy(
+  name: InsertionStrategyName,
+  config: InsertionConfig,
+): InsertionStrategy {
+  switch (name) {
+    case "clipboard-paste":
+      return createClipboardPasteStrategy(config);
+    case "xdotool":
+      return createXdotoolStrategy();
+    case "ydotool":
+      return createYdotoolStrategy();
+    case "clipboard":
+      return createClipboardStrategy();
+  }
+}
+
+/**
+ * Insert text with the configured strategy, falling back to copying it to the
+ * clipboard when that strategy is unavailable (e.g. xdotool is not installed).
+ */
+export async function insertText(
+  text: string,
+  config: InsertionConfig,
+): Promise<InsertionResult> {
+  const strategy = createInsertionStrategy(config.strategy, config);
+  try {
+    await strategy.insert(text);
+    console.log(`Inserted ${text.length} characters via ${strategy.name}`);
+    return {
+      success: true,
+      strategy: strategy.name,
+      fallback: false,
+      message: "Text inserted",
+    };
+  } catch (error: any) {
+    console.error(`Insertion via ${strategy.name} failed:`, error);
+    if (strategy.name === "clipboard") {
+      return {
+        success: false,
+        strategy: strategy.name,
+        fallback: false,
+        message: `Insertion failed: ${error.message || error}`,
+      };
+    }
+  }
+
+  await createClipboardStrategy().insert(text);
+  return {
+    success: true,
+    strategy: "clipboard",
+    fallback: true,
+    message: `${strategy.name} is unavailable, the text was copied to the clipboard`,
+  };
+}
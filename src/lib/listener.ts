@@ -0,0 +1,130 @@
+// lib/listener
+// Wake word listening in the renderer: cuts speech out of the open microphone
+// stream and hands each clip to the local spotter in the main process
+import { encodeWav, resample } from "./wav";
+
+export interface WakeWordListenerOptions {
+  threshold: number; // Average level (0-255) that counts as speech
+  // Resolves true when the clip contains the wake phrase
+  check: (wav: ArrayBuffer) => Promise<boolean>;
+  onWake: () => void;
+}
+
+export interface WakeWordListener {
+  setActive(active: boolean): void;
+  dispose(): void;
+}
+
+const TARGET_RATE = 16000; // What whisper.cpp expects
+const PRE_ROLL_MS = 300; // Audio kept from before the level rose, so the first syllable is not lost
+const END_SILENCE_MS = 400;
+const MIN_CLIP_MS = 300;
+const MAX_CLIP_MS = 3000; // Wake phrases are short, longer speech is someone talking
+
+export function createWakeWordListener(
+  context: AudioContext,
+  source: MediaStreamAudioSourceNode,
+  { threshold, check, onWake }: WakeWordListenerOptions,
+): WakeWordListener {
+  // ScriptProcessorNode is deprecated but needs no separately bundled worklet module
+  const processor = context.createScriptProcessor(4096, 1, 1);
+  const rate = context.sampleRate;
+  const preRollSamples = Math.round((PRE_ROLL_MS / 1000) * rate);
+
+  let active = false;
+  let checking = false; // One clip at a time, clips arriving meanwhile are dropped
+  let preRoll: Float32Array[] = [];
+  let clip: Float32Array[] = [];
+  let clipSamples = 0;
+  let silentSamples = 0;
+
+  // The analyser levels used elsewhere are 0-255 byte magnitudes, scale RMS to match
+  const levelOf = (samples: Float32Array) => {
+    let sum = 0;
+    for (const sample of samples) sum += sample * sample;
+    return Math.sqrt(sum / samples.length) * 255;
+  };
+
+  const finishClip = async () => {
+    const samples = new Float32Array(clipSamples);
+    let offset = 0;
+    for (const chunk of clip) {
+      samples.set(chunk, offset);
+      offset += chunk.length;
+    }
+    clip = [];
+    clipSamples = 0;
+    silentSamples = 0;
+
+    const durationMs = (samples.length / rate) * 1000;
+    if (durationMs < MIN_CLIP_MS || checking) return;
+
+    checking = true;
+    try {
+      const wav = encodeWav(resample(samples, rate, TARGET_RATE), TARGET_RATE);
+      if ((await check(wav)) && active) {
+        console.log("Wake word detected");
+        onWake();
+      }
+    } catch (error) {
+      console.error("Wake word check failed:", error);
+    } finally {
+      checking = false;
+    }
+  };
+
+  processor.onaudioprocess = (event) => {
+    if (!active) return;
+    const samples = new Float32Array(event.inputBuffer.getChannelData(0));
+    const speaking = levelOf(samples) > threshold;
+
+    if (clipSamples === 0) {
+      if (!speaking) {
+        preRoll.push(samples);
+        // Keep just enough chunks to cover the pre-roll
+        while (
+          preRoll.length > 1 &&
+          (preRoll.length - 1) * samples.length >= preRollSamples
+        ) {
+          preRoll.shift();
+        }
+        return;
+      }
+      clip = [...preRoll];
+      clipSamples = preRoll.reduce((sum, chunk) => sum + chunk.length, 0);
+      preRoll = [];
+    }
+
+    clip.push(samples);
+    clipSamples += samples.length;
+    silentSamples = speaking ? 0 : silentSamples + samples.length;
+
+    const silentMs = (silentSamples / rate) * 1000;
+    const clipMs = (clipSamples / rate) * 1000;
+    if (silentMs >= END_SILENCE_MS || clipMs >= MAX_CLIP_MS) {
+      finishClip();
+    }
+  };
+
+  source.connect(processor);
+  // The processor only runs while connected to the destination; it outputs silence
+  processor.connect(context.destination);
+
+  return {
+    setActive(value) {
+      if (active === value) return;
+      active = value;
+      console.log(`Wake word listening ${value ? "resumed" : "paused"}`);
+      preRoll = [];
+      clip = [];
+      clipSamples = 0;
+      silentSamples = 0;
+    },
+    dispose() {
+      active = false;
+      processor.onaudioprocess = null;
+      source.disconnect(processor);
+      processor.disconnect();
+    },
+  };
+}
@@ -0,0 +1,165 @@
+// lib/ogg
+// Minimal Ogg muxer for Opus packets produced by WebCodecs (RFC 3533, RFC 7845)
+
+export interface OpusPacket {
+  data: Uint8Array;
+  samples: number; // Duration at 48 kHz, the rate Ogg Opus granule positions count in
+}
+
+export interface OggOpusOptions {
+  channels: number;
+  inputSampleRate: number; // Informational, decoders always output 48 kHz
+  preSkip: number; // Encoder delay in 48 kHz samples, dropped by the decoder
+  head?: Uint8Array; // OpusHead from the encoder, built from the options when missing
+}
+
+const MAX_SEGMENTS = 255; // Lacing values per page
+const FLAG_BOS = 0x02;
+const FLAG_EOS = 0x04;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 24;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+    }
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+// Ogg uses an unreflected CRC-32 with no final xor
+function crc32(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+  }
+  return crc;
+}
+
+function ascii(value: string): Uint8Array {
+  return Uint8Array.from(value, (char) => char.charCodeAt(0));
+}
+
+function opusHead({
+  channels,
+  inputSampleRate,
+  preSkip,
+}: OggOpusOptions): Uint8Array {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(ascii("OpusHead"));
+  view.setUint8(8, 1); // Version
+  view.setUint8(9, channels);
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, inputSampleRate, true);
+  view.setInt16(16, 0, true); // Output gain
+  view.setUint8(18, 0); // Mapping family: mono or stereo
+  return head;
+}
+
+function opusTags(vendor: string): Uint8Array {
+  const vendorBytes = ascii(vendor);
+  const tags = new Uint8Array(16 + vendorBytes.length);
+  const view = new DataView(tags.buffer);
+  tags.set(ascii("OpusTags"));
+  view.setUint32(8, vendorBytes.length, true);
+  tags.set(vendorBytes, 12);
+  view.setUint32(12 + vendorBytes.length, 0, true); // No user comments
+  return tags;
+}
+
+function lacing(packet: Uint8Array): number[] {
+  const values: number[] = new Array(Math.floor(packet.length / 255)).fill(255);
+  values.push(packet.length % 255); // A final value below 255 ends the packet
+  return values;
+}
+
+function page(
+  packets: Uint8Array[],
+  granule: number,
+  serial: number,
+  sequence: number,
+  flags: number,
+): Uint8Array {
+  const segments = packets.reduce<number[]>(
+    (all, packet) => all.concat(lacing(packet)),
+    [],
+  );
+  const bodyLength = packets.reduce((sum, packet) => sum + packet.length, 0);
+  const bytes = new Uint8Array(27 + segments.length + bodyLength);
+  const view = new DataView(bytes.buffer);
+
+  bytes.set(ascii("OggS"));
+  view.setUint8(4, 0); // Version
+  view.setUint8(5, flags);
+  view.setUint32(6, granule % 2 ** 32, true);
+  view.setUint32(10, Math.floor(granule / 2 ** 32), true);
+  view.setUint32(14, serial, true);
+  view.setUint32(18, sequence, true);
+  view.setUint8(26, segments.length);
+  bytes.set(segments, 27);
+  let offset = 27 + segments.length;
+  for (const packet of packets) {
+    bytes.set(packet, offset);
+    offset += packet.length;
+  }
+  view.setUint32(22, crc32(bytes), true); // Computed with the field zeroed
+  return bytes;
+}
+
+/**
+ * Wrap Opus packets in an Ogg stream. Packets are grouped into pages of up
+ * to 255 lacing values; `totalSamples` trims the padding of the last packet.
+ */
+export function muxOggOpus(
+  packets: OpusPacket[],
+  totalSamples: number,
+  options: OggOpusOptions,
+): Uint8Array {
+  const serial = Math.floor(Math.random() * 2 ** 32);
+  const pages = [
+    page([options.head || opusHead(options)], 0, serial, 0, FLAG_BOS),
+    page([opusTags("seery")], 0, serial, 1, 0),
+  ];
+
+  let pending: Uint8Array[] = [];
+  let pendingSegments = 0;
+  let granule = options.preSkip;
+  const endGranule = options.preSkip + totalSamples;
+
+  packets.forEach((packet, index) => {
+    const segments = lacing(packet.data).length;
+    if (pendingSegments + segments > MAX_SEGMENTS) {
+      pages.push(page(pending, granule, serial, pages.length, 0));
+      pending = [];
+      pendingSegments = 0;
+    }
+    pending.push(packet.data);
+    pendingSegments += segments;
+    granule += packet.samples;
+
+    if (index === packets.length - 1) {
+      pages.push(
+        page(
+          pending,
+          Math.min(granule, endGranule),
+          serial,
+          pages.length,
+          FLAG_EOS,
+        ),
+      );
+    }
+  });
+
+  const output = new Uint8Array(
+    pages.reduce((sum, bytes) => sum + bytes.length, 0),
+  );
+  let offset = 0;
+  for (const bytes of pages) {
+    output.set(bytes, offset);
+    offset += bytes.length;
+  }
+  return output;
+}
@@ -0,0 +1,149 @@
+// lib/placement
+// Where the overlay goes: anchored on a display, or wherever the user dragged
+// it. Dragged positions are remembered per display layout in userData.
+import { app, Display, Rectangle } from "electron";
+import fs from "fs";
+import path from "path";
+
+export type WindowAnchor =
+  | "top-center"
+  | "top-left"
+  | "top-right"
+  | "bottom-left"
+  | "bottom-right"
+  | "free";
+
+export const WINDOW_ANCHORS: WindowAnchor[] = [
+  "top-center",
+  "top-left",
+  "top-right",
+  "bottom-left",
+  "bottom-right",
+  "free",
+];
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+interface SavedPosition {
+  displayId: number;
+  offset: Point; // From the top-left of the display's work area
+}
+
+let positions: Record<string, SavedPosition> | null = null;
+let writeQueue: Promise<void> = Promise.resolve();
+
+function getPositionsPath(): string {
+  return path.join(app.getPath("userData"), "window-positions.json");
+}
+
+function loadPositions(): Record<string, SavedPosition> {
+  if (positions) return positions;
+  try {
+    positions = JSON.parse(fs.readFileSync(getPositionsPath(), "utf8"));
+  } catch (error: any) {
+    if (error.code !== "ENOENT") {
+      console.error("Failed to read window positions:", error);
+    }
+    positions = {};
+  }
+  return positions as Record<string, SavedPosition>;
+}
+
+/**
+ * Identifies a set of connected displays, their arrangement and scaling, so
+ * a position dragged on the laptop alone is not reused with a monitor attached.
+ */
+export function getLayoutKey(displays: Display[]): string {
+  return displays
+    .map(
+      ({ id, bounds, scaleFactor }) =>
+        `${id}:${bounds.x},${bounds.y},${bounds.width}x${bounds.height}@${scaleFactor}`,
+    )
+    .sort()
+    .join("|");
+}
+
+export function getAnchorPosition(
+  anchor: Exclude<WindowAnchor, "free">,
+  workArea: Rectangle,
+  width: number,
+  height: number,
+  margin: number,
+): Point {
+  const left = workArea.x + margin;
+  const right = workArea.x + workArea.width - width - margin;
+  const top = workArea.y + margin;
+  const bottom = workArea.y + workArea.height - height - margin;
+  switch (anchor) {
+    case "top-center":
+      // Hangs from the top edge like a notch
+      return {
+        x: Math.round(workArea.x + (workArea.width - width) / 2),
+        y: workArea.y,
+      };
+    case "top-left":
+      return { x: left, y: top };
+    case "top-right":
+      return { x: right, y: top };
+    case "bottom-left":
+      return { x: left, y: bottom };
+    case "bottom-right":
+      return { x: right, y: bottom };
+  }
+}
+
+// Keep the whole window inside the work area
+export function clampToWorkArea(
+  { x, y }: Point,
+  workArea: Rectangle,
+  width: number,
+  height: number,
+): Point {
+  return {
+    x: Math.max(workArea.x, Math.min(x, workArea.x + workArea.width - width)),
+    y: Math.max(workArea.y, Math.min(y, workArea.y + workArea.height - height)),
+  };
+}
+
+// The position dragged to under this layout, in screen coordinates
+export function getSavedPosition(
+  displays: Display[],
+): { position: Point; display: Display } | null {
+  const saved = loadPositions()[getLayoutKey(displays)];
+  const display = saved && displays.find(({ id }) => id === saved.displayId);
+  if (!saved || !display) return null;
+  return {
+    position: {
+      x: display.workArea.x + saved.offset.x,
+      y: display.workArea.y + saved.offset.y,
+    },
+    display,
+  };
+}
+
+export function savePosition(
+  displays: Display[],
+  display: Display,
+  position: Point,
+): Promise<void> {
+  const all = loadPositions();
+  all[getLayoutKey(displays)] = {
+    displayId: display.id,
+    offset: {
+      x: position.x - display.workArea.x,
+      y: position.y - display.workArea.y,
+    },
+  };
+  const snapshot = JSON.stringify(all);
+  writeQueue = writeQueue
+    .then(async () => {
+      const positionsPath = getPositionsPath();
+      await fs.promises.writeFile(`${positionsPath}.tmp`, snapshot);
+      await fs.promises.rename(`${positionsPath}.tmp`, positionsPath);
+    })
+    .catch((error) => console.error("Failed to save window position:", error));
+  return writeQueue;
+}
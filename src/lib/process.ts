@@ -0,0 +1,40 @@
+// lib/process
+import { spawn } from "child_process";
+
+// Run a child process to completion and resolve with its stdout
+export function runCommand(
+  command: string,
+  args: string[],
+  onStderr?: (chunk: string) => void,
+  input?: string, // Written to stdin, which is then closed
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, {
+      stdio: [input === undefined ? "ignore" : "pipe", "pipe", "pipe"],
+    });
+
+    let stdout = "";
+    let stderr = "";
+    child.stdout.on("data", (chunk) => {
+      stdout += chunk.toString();
+    });
+    child.stderr.on("data", (chunk) => {
+      stderr += chunk.toString();
+      onStderr?.(chunk.toString());
+    });
+
+    child.on("error", (err) => reject(err));
+    child.on("close", (code) => {
+      if (code === 0) {
+        resolve(stdout);
+      } else {
+        reject(new Error(`${command} exited ${code}: ${stderr.trim()}`));
+      }
+    });
+
+    if (input !== undefined && child.stdin) {
+      child.stdin.on("error", () => undefined); // Reported through the exit code
+      child.stdin.end(input);
+    }
+  });
+}
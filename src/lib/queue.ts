@@ -0,0 +1,168 @@
+// lib/queue
+// Recordings whose transcription failed, kept in userData/queue until a retry
+// succeeds or the user discards them: jobs.json plus one audio file per job
+import { app } from "electron";
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+
+export interface QueuedJob {
+  id: string;
+  createdAt: number; // Unix time in ms
+  format: string; // Audio file extension
+  durationMs?: number;
+  profile?: string; // Id of the dictation profile chosen when recording
+  translate?: boolean; // Recorded with the translate-to-English shortcut
+  target?: "insert" | "agent"; // Dictation when unset
+  agentBackend?: string; // Agent target: the backend chosen by the shortcut
+  attempts: number; // Failed transcriptions, the first one included
+  nextAttemptAt: number; // 0 once automatic retries gave up
+  lastError: string;
+}
+
+const BASE_DELAY_MS = 30 * 1000;
+const MAX_DELAY_MS = 30 * 60 * 1000;
+const MAX_ATTEMPTS = 10; // Later retries only when the user asks
+
+let jobs: QueuedJob[] | null = null;
+// Writes are chained so concurrent failures never interleave on disk
+let writeQueue: Promise<void> = Promise.resolve();
+
+function getQueueDir(): string {
+  return path.join(app.getPath("userData"), "queue");
+}
+
+function getJobsPath(): string {
+  return path.join(getQueueDir(), "jobs.json");
+}
+
+function getAudioPath(job: QueuedJob): string {
+  return path.join(getQueueDir(), `${job.id}.${job.format}`);
+}
+
+// Audio files without a job are left over from a crash while enqueueing
+async function removeOrphans(known: QueuedJob[]): Promise<void> {
+  const files = await fs.promises.readdir(getQueueDir()).catch(() => []);
+  const expected = new Set(
+    known.map((job) => path.basename(getAudioPath(job))),
+  );
+  for (const file of files) {
+    if (file === "jobs.json" || expected.has(file)) continue;
+    console.log("Removing orphaned queue file:", file);
+    await fs.promises
+      .unlink(path.join(getQueueDir(), file))
+      .catch(() => undefined);
+  }
+}
+
+async function loadJobs(): Promise<QueuedJob[]> {
+  if (jobs) return jobs;
+  let loaded: QueuedJob[];
+  try {
+    loaded = JSON.parse(await fs.promises.readFile(getJobsPath(), "utf8"));
+  } catch (error: any) {
+    if (error.code !== "ENOENT") {
+      console.error("Failed to read the retry queue, starting empty:", error);
+    }
+    loaded = [];
+  }
+  if (!jobs) {
+    jobs = loaded;
+    await removeOrphans(jobs);
+  }
+  return jobs;
+}
+
+function saveJobs(): Promise<void> {
+  const snapshot = JSON.stringify(jobs || []);
+  writeQueue = writeQueue
+    .then(async () => {
+      const jobsPath = getJobsPath();
+      await fs.promises.mkdir(getQueueDir(), { recursive: true });
+      await fs.promises.writeFile(`${jobsPath}.tmp`, snapshot);
+      await fs.promises.rename(`${jobsPath}.tmp`, jobsPath);
+    })
+    .catch((error) => console.error("Failed to write the retry queue:", error));
+  return writeQueue;
+}
+
+// 30s, 1m, 2m, ... capped at 30 minutes
+function backoff(attempts: number): number {
+  return Math.min(BASE_DELAY_MS * 2 ** (attempts - 1), MAX_DELAY_MS);
+}
+
+export async function enqueueJob(
+  audio: Buffer,
+  values: Pick<
+    QueuedJob,
+    | "format"
+    | "durationMs"
+    | "profile"
+    | "translate"
+    | "target"
+    | "agentBackend"
+    | "lastError"
+  >,
+): Promise<QueuedJob> {
+  const all = await loadJobs();
+  const job: QueuedJob = {
+    ...values,
+    id: randomUUID(),
+    createdAt: Date.now(),
+    attempts: 1,
+    nextAttemptAt: Date.now() + backoff(1),
+  };
+  // The audio is written first, a job is never saved without it
+  await fs.promises.mkdir(getQueueDir(), { recursive: true });
+  await fs.promises.writeFile(getAudioPath(job), audio);
+  all.push(job);
+  await saveJobs();
+  console.log(`Queued failed transcription ${job.id} for retry`);
+  return job;
+}
+
+export async function listJobs(): Promise<QueuedJob[]> {
+  return [...(await loadJobs())];
+}
+
+export async function getJob(id: string): Promise<QueuedJob | undefined> {
+  return (await loadJobs()).find((job) => job.id === id);
+}
+
+// Jobs whose next automatic retry is due; `all` ignores the schedule
+export async function getDueJobs(all = false): Promise<QueuedJob[]> {
+  const now = Date.now();
+  return (await loadJobs()).filter(
+    (job) => job.nextAttemptAt > 0 && (all || job.nextAttemptAt <= now),
+  );
+}
+
+export async function readJobAudio(job: QueuedJob): Promise<Buffer> {
+  return fs.promises.readFile(getAudioPath(job));
+}
+
+export async function recordFailedAttempt(
+  id: string,
+  error: string,
+): Promise<QueuedJob | undefined> {
+  const job = await getJob(id);
+  if (!job) return undefined;
+  job.attempts++;
+  job.lastError = error;
+  job.nextAttemptAt =
+    job.attempts >= MAX_ATTEMPTS ? 0 : Date.now() + backoff(job.attempts);
+  await saveJobs();
+  return job;
+}
+
+// Removes the job and its audio, after a successful retry or when discarded
+export async function removeJob(id: string): Promise<boolean> {
+  const all = await loadJobs();
+  const index = all.findIndex((job) => job.id === id);
+  if (index === -1) return false;
+
+  const [job] = all.splice(index, 1);
+  await fs.promises.unlink(getAudioPath(job)).catch(() => undefined);
+  await saveJobs();
+  return true;
+}
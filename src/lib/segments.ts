@@ -0,0 +1,284 @@
+// lib/segments
+// Long recordings are cut at pauses into overlapping WAV segments, transcribed
+// a few at a time and stitched back together without repeating the overlap
+import fs from "fs";
+import type {
+  TranscriptionOptions,
+  TranscriptionProvider,
+  TranscriptionResult,
+} from "./transcription";
+
+export interface SegmentOptions {
+  segmentSeconds: number; // Target length of each segment
+  overlapSeconds: number; // Audio shared by neighbouring segments, so no word is cut in half
+  concurrency: number; // Segments transcribed at the same time
+}
+
+export interface Segment {
+  start: number; // Sample offsets
+  end: number;
+}
+
+interface Pcm {
+  samples: Int16Array;
+  sampleRate: number;
+}
+
+const SEARCH_FRACTION = 0.2; // Look for a pause in the last fifth of a segment
+const MAX_SEARCH_SECONDS = 15;
+const FRAME_SECONDS = 0.1;
+const MAX_OVERLAP_WORDS = 40;
+const MAX_SKIPPED_WORDS = 3; // Words at a segment start that may be cut-off fragments
+
+interface WavLayout {
+  sampleRate: number;
+  dataOffset: number;
+  dataLength: number; // Bytes
+}
+
+// Only mono 16-bit PCM, the format recordings are converted to before segmenting
+function parseWav(buffer: Buffer): WavLayout {
+  if (
+    buffer.toString("ascii", 0, 4) !== "RIFF" ||
+    buffer.toString("ascii", 8, 12) !== "WAVE"
+  ) {
+    throw new Error("Not a WAV file");
+  }
+
+  let sampleRate = 0;
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const id = buffer.toString("ascii", offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+    if (id === "fmt ") {
+      const format = buffer.readUInt16LE(body);
+      const channels = buffer.readUInt16LE(body + 2);
+      const bits = buffer.readUInt16LE(body + 14);
+      if (format !== 1 || channels !== 1 || bits !== 16) {
+        throw new Error("Only mono 16-bit PCM WAV can be segmented");
+      }
+      sampleRate = buffer.readUInt32LE(body + 4);
+    } else if (id === "data") {
+      if (!sampleRate) throw new Error("WAV data before its format");
+      // Streamed WAVs can report a size larger than what was written
+      const length = Math.min(size, buffer.length - body);
+      return {
+        sampleRate,
+        dataOffset: body,
+        dataLength: length - (length % 2),
+      };
+    }
+    offset = body + size + (size % 2); // Chunks are padded to an even size
+  }
+  throw new Error("WAV file has no audio data");
+}
+
+export function getWavDuration(wav: Buffer): number {
+  const { sampleRate, dataLength } = parseWav(wav);
+  return dataLength / 2 / sampleRate; // Seconds
+}
+
+function readWav(wav: Buffer): Pcm {
+  const { sampleRate, dataOffset, dataLength } = parseWav(wav);
+  // Copied into its own buffer, Int16Array needs an aligned offset
+  const start = wav.byteOffset + dataOffset;
+  const samples = new Int16Array(wav.buffer.slice(start, start + dataLength));
+  return { samples, sampleRate };
+}
+
+function encodeWav(samples: Int16Array, sampleRate: number): Buffer {
+  const header = Buffer.alloc(44);
+  header.write("RIFF", 0, "ascii");
+  header.writeUInt32LE(36 + samples.byteLength, 4);
+  header.write("WAVE", 8, "ascii");
+  header.write("fmt ", 12, "ascii");
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // Mono
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write("data", 36, "ascii");
+  header.writeUInt32LE(samples.byteLength, 40);
+  return Buffer.concat([
+    header,
+    Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength),
+  ]);
+}
+
+// Start of the quietest frame between `from` and `to`
+function findPause(
+  samples: Int16Array,
+  from: number,
+  to: number,
+  frame: number,
+): number {
+  let quietest = to;
+  let lowest = Infinity;
+  for (let start = from; start + frame <= to; start += frame) {
+    let sum = 0;
+    for (let i = start; i < start + frame; i++) sum += samples[i] * samples[i];
+    if (sum < lowest) {
+      lowest = sum;
+      quietest = start;
+    }
+  }
+  return quietest;
+}
+
+/**
+ * Plan segments of about `segmentSeconds`, each ending in the quietest moment
+ * near its target end and starting `overlapSeconds` before the previous cut.
+ */
+export function planSegments(
+  samples: Int16Array,
+  sampleRate: number,
+  { segmentSeconds, overlapSeconds }: SegmentOptions,
+): Segment[] {
+  const length = Math.round(segmentSeconds * sampleRate);
+  const overlap = Math.round(overlapSeconds * sampleRate);
+  const search = Math.round(
+    Math.min(segmentSeconds * SEARCH_FRACTION, MAX_SEARCH_SECONDS) * sampleRate,
+  );
+  const frame = Math.round(FRAME_SECONDS * sampleRate);
+
+  const segments: Segment[] = [];
+  let start = 0;
+  // A short remainder is added to the last segment rather than sent on its own
+  while (samples.length - start > length + search) {
+    const target = start + length;
+    const cut =
+      findPause(samples, target - search, target, frame) +
+      Math.floor(frame / 2);
+    segments.push({ start, end: cut });
+    start = Math.max(cut - overlap, start + 1);
+  }
+  segments.push({ start, end: samples.length });
+  return segments;
+}
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, "");
+}
+
+/**
+ * Join two transcripts of overlapping audio. The longest run of words the
+ * end of `previous` shares with the start of `next` is kept once; a few words
+ * at either edge may differ because the overlap cut through them.
+ */
+function mergePair(previous: string, next: string): string {
+  const a = previous.split(/\s+/).filter(Boolean);
+  const b = next.split(/\s+/).filter(Boolean);
+  const aWords = a.map(normalizeWord);
+  const bWords = b.map(normalizeWord);
+
+  let best = { length: 0, aEnd: a.length, bStart: 0 };
+  const tailStart = Math.max(0, a.length - MAX_OVERLAP_WORDS);
+  for (let i = tailStart; i < a.length; i++) {
+    for (let j = 0; j <= MAX_SKIPPED_WORDS && j < b.length; j++) {
+      let length = 0;
+      while (
+        i + length < a.length &&
+        j + length < b.length &&
+        aWords[i + length] &&
+        aWords[i + length] === bWords[j + length]
+      ) {
+        length++;
+      }
+      // The shared run has to reach (close to) the end of the previous text
+      const trailing = a.length - (i + length);
+      if (length > best.length && trailing <= MAX_SKIPPED_WORDS) {
+        best = { length, aEnd: i + length, bStart: j + length };
+      }
+    }
+  }
+
+  // A single shared word is as likely to be chance as overlap
+  if (best.length < 2) return `${previous} ${next}`.trim();
+  return [...a.slice(0, best.aEnd), ...b.slice(best.bStart)].join(" ");
+}
+
+export function mergeTranscripts(texts: string[]): string {
+  return texts
+    .map((text) => text.trim())
+    .filter(Boolean)
+    .reduce((merged, text) => (merged ? mergePair(merged, text) : text), "");
+}
+
+// Run `worker` over `items` with at most `limit` in flight, results in input order
+export async function runPool<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const runners = Array.from(
+    { length: Math.min(Math.max(1, limit), items.length) },
+    async () => {
+      while (next < items.length) {
+        const index = next++;
+        results[index] = await worker(items[index], index);
+      }
+    },
+  );
+  await Promise.all(runners);
+  return results;
+}
+
+/**
+ * Transcribe a long WAV file segment by segment. Segment files are written
+ * next to `wavPath` and removed whether or not transcription succeeds.
+ */
+export async function transcribeInSegments(
+  wavPath: string,
+  provider: TranscriptionProvider,
+  options: SegmentOptions,
+  transcriptionOptions: TranscriptionOptions = {},
+): Promise<TranscriptionResult> {
+  const { samples, sampleRate } = readWav(await fs.promises.readFile(wavPath));
+  const segments = planSegments(samples, sampleRate, options);
+  console.log(
+    `Transcribing ${Math.round(samples.length / sampleRate)}s of audio in ${segments.length} segments`,
+  );
+
+  // Per-segment engine progress would jump back and forth, report whole segments instead
+  const { onProgress, ...segmentOptions } = transcriptionOptions;
+  let completed = 0;
+  onProgress?.({
+    stage: "transcribing",
+    percent: 0,
+    segments: { completed, total: segments.length },
+  });
+
+  const results = await runPool(
+    segments,
+    options.concurrency,
+    async (segment, index) => {
+      const segmentPath = wavPath.replace(/\.wav$/, "") + `.part${index}.wav`;
+      await fs.promises.writeFile(
+        segmentPath,
+        encodeWav(samples.subarray(segment.start, segment.end), sampleRate),
+      );
+      try {
+        const result = await provider.transcribe(segmentPath, segmentOptions);
+        completed++;
+        onProgress?.({
+          stage: "transcribing",
+          percent: Math.round((completed / segments.length) * 100),
+          segments: { completed, total: segments.length },
+        });
+        return result;
+      } finally {
+        await fs.promises.unlink(segmentPath).catch(() => undefined);
+      }
+    },
+  );
+
+  return {
+    text: mergeTranscripts(results.map(({ text }) => text)),
+    language: results.find(({ language }) => language)?.language,
+  };
+}
@@ -0,0 +1,480 @@
+// lib/settings
+// Persistent, schema validated settings stored as JSON in the userData directory
+import { app } from "electron";
+import fs from "fs";
+import path from "path";
+import {
+  AGENT_BACKEND_TYPES,
+  AgentBackendConfig,
+  AgentConfig,
+  CLEANUP_STYLES,
+  CleanupConfig,
+  COMMAND_ACTIONS,
+  CommandRule,
+  CommandsConfig,
+  DictationProfile,
+  getAgentDefaults,
+  getCleanupDefaults,
+  getCommandsDefaults,
+  getProfilesDefaults,
+  getInsertionDefaults,
+  getRecordingDefaults,
+  getShortcutDefaults,
+  getSpeechDefaults,
+  getTranscriptionDefaults,
+  getVocabularyDefaults,
+  getWakeWordDefaults,
+  INSERTION_STRATEGIES,
+  InsertionConfig,
+  ProfilesConfig,
+  RecordingConfig,
+  ReplacementRule,
+  SHORTCUT_ACTIONS,
+  ShortcutConfig,
+  SPEECH_ENGINES,
+  SpeechConfig,
+  TRANSCRIPTION_PROVIDERS,
+  TranscriptionConfig,
+  UPLOAD_FORMATS,
+  VocabularyConfig,
+  VocabularyProfile,
+  WakeWordConfig,
+} from "./config";
+import type { HistorySettings } from "./history";
+import { WINDOW_ANCHORS, WindowAnchor } from "./placement";
+import { toRegExp } from "./vocabulary";
+
+export interface GeneralSettings {
+  openAtLogin: boolean;
+}
+
+export interface WindowSettings {
+  width: number;
+  height: number;
+  margin: number; // Distance from the edges of the work area
+  anchor: WindowAnchor; // "free" keeps the position the overlay was dragged to
+  followCursor: boolean; // Anchor on the display under the mouse instead of the primary one
+}
+
+export interface Settings {
+  version: number;
+  general: GeneralSettings;
+  window: WindowSettings;
+  transcription: TranscriptionConfig;
+  insertion: InsertionConfig;
+  recording: RecordingConfig;
+  shortcuts: ShortcutConfig;
+  history: HistorySettings;
+  agent: AgentConfig;
+  speech: SpeechConfig;
+  wakeWord: WakeWordConfig;
+  vocabulary: VocabularyConfig;
+  commands: CommandsConfig;
+  cleanup: CleanupConfig;
+  profiles: ProfilesConfig;
+}
+
+// Sections that can be updated, each one merged shallowly into the current value
+export type SettingsPatch = {
+  [Section in Exclude<keyof Settings, "version">]?: Partial<Settings[Section]>;
+};
+
+export const SETTINGS_VERSION = 1;
+
+// --- Schema ---
+
+type Validator<T> = (value: unknown, path: string) => T;
+
+function invalid(path: string, message: string): never {
+  throw new Error(`Invalid setting ${path}: ${message}`);
+}
+
+const string = (): Validator<string> => (value, path) =>
+  typeof value === "string" ? value : invalid(path, "must be a string");
+
+const number =
+  (min = -Infinity, max = Infinity): Validator<number> =>
+  (value, path) => {
+    if (typeof value !== "number" || Number.isNaN(value)) {
+      return invalid(path, "must be a number");
+    }
+    if (value < min || value > max) {
+      return invalid(path, `must be between ${min} and ${max}`);
+    }
+    return value;
+  };
+
+const boolean = (): Validator<boolean> => (value, path) =>
+  typeof value === "boolean" ? value : invalid(path, "must be true or false");
+
+const oneOf =
+  <T extends string>(options: readonly T[]): Validator<T> =>
+  (value, path) =>
+    options.includes(value as T)
+      ? (value as T)
+      : invalid(path, `must be one of ${options.join(", ")}`);
+
+const optional =
+  <T>(validator: Validator<T>): Validator<T | undefined> =>
+  (value, path) =>
+    value === undefined || value === null ? undefined : validator(value, path);
+
+const arrayOf =
+  <T>(item: Validator<T>): Validator<T[]> =>
+  (value, path) =>
+    Array.isArray(value)
+      ? value.map((entry, index) => item(entry, `${path}[${index}]`))
+      : invalid(path, "must be a list");
+
+// Validates the declared keys and drops anything else
+const object =
+  <T>(shape: { [K in keyof T]: Validator<T[K]> }): Validator<T> =>
+  (value, path) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return invalid(path, "must be an object");
+    }
+    const input = value as Record<string, unknown>;
+    const output = {} as T;
+    for (const key of Object.keys(shape) as (keyof T)[]) {
+      const result = shape[key](input[key as string], `${path}.${String(key)}`);
+      if (result !== undefined) output[key] = result;
+    }
+    return output;
+  };
+
+// Regex rules have to compile, a broken pattern would otherwise surface on every dictation
+const replacementRule = (): Validator<ReplacementRule> => (value, path) => {
+  const rule = object<ReplacementRule>({
+    from: string(),
+    to: string(),
+    caseSensitive: boolean(),
+    regex: boolean(),
+  })(value, path);
+  if (rule.regex) {
+    try {
+      toRegExp(rule); // With the flags the replacements run with
+    } catch (error) {
+      invalid(
+        `${path}.from`,
+        `is not a valid pattern: ${(error as Error).message}`,
+      );
+    }
+  }
+  return rule;
+};
+
+// A regular expression matched case-insensitively, empty matches anything
+const pattern = (): Validator<string> => (value, path) => {
+  const source = string()(value, path);
+  try {
+    new RegExp(source, "i");
+  } catch (error) {
+    invalid(path, `is not a valid pattern: ${(error as Error).message}`);
+  }
+  return source;
+};
+
+const settingsSchema: Validator<Settings> = object<Settings>({
+  version: number(0),
+  general: object<GeneralSettings>({
+    openAtLogin: boolean(),
+  }),
+  window: object<WindowSettings>({
+    width: number(100, 4000),
+    height: number(60, 4000),
+    margin: number(0, 500),
+    anchor: oneOf(WINDOW_ANCHORS),
+    followCursor: boolean(),
+  }),
+  transcription: object<TranscriptionConfig>({
+    provider: oneOf(TRANSCRIPTION_PROVIDERS),
+    model: string(),
+    apiKey: optional(string()),
+    baseUrl: optional(string()),
+    language: optional(string()),
+    command: optional(string()),
+    args: arrayOf(string()),
+    modelPath: optional(string()),
+    threads: optional(number(1, 256)),
+    ffmpegPath: optional(string()),
+    segmentSeconds: number(10, 1800),
+    segmentOverlapSeconds: number(0, 10),
+    segmentConcurrency: number(1, 16),
+  }),
+  insertion: object<InsertionConfig>({
+    strategy: oneOf(INSERTION_STRATEGIES),
+    restoreDelayMs: number(0, 10000),
+  }),
+  recording: object<RecordingConfig>({
+    handsFree: boolean(),
+    silenceThreshold: number(0, 255),
+    silenceDurationMs: number(100, 60000),
+    minSpeechMs: number(0, 60000),
+    maxWaitMs: number(1000, 600000),
+    minRecordingDurationMs: number(0, 5000),
+    inputDeviceId: optional(string()),
+    inputDeviceLabel: optional(string()),
+    preprocess: boolean(),
+    uploadFormat: oneOf(UPLOAD_FORMATS),
+  }),
+  shortcuts: object<ShortcutConfig>({
+    bindings: arrayOf(
+      object({
+        action: oneOf(SHORTCUT_ACTIONS),
+        accelerator: string(),
+        mode: oneOf(["toggle", "push-to-talk"] as const),
+        agentBackend: optional(string()),
+      }),
+    ),
+    releaseDelayMs: number(50, 5000),
+    initialReleaseDelayMs: number(50, 5000),
+  }),
+  history: object<HistorySettings>({
+    enabled: boolean(),
+    keepAudio: boolean(),
+    maxEntries: number(0),
+    maxAgeDays: number(0),
+  }),
+  agent: object<AgentConfig>({
+    timeoutMs: number(0),
+    defaultBackend: string(),
+    backends: arrayOf(
+      object<AgentBackendConfig>({
+        id: string(),
+        name: string(),
+        type: oneOf(AGENT_BACKEND_TYPES),
+        command: optional(string()),
+        args: arrayOf(string()),
+        promptInput: oneOf(["stdin", "argument"] as const),
+        model: optional(string()),
+        baseUrl: optional(string()),
+        apiKey: optional(string()),
+        systemPrompt: optional(string()),
+      }),
+    ),
+  }),
+  speech: object<SpeechConfig>({
+    enabled: boolean(),
+    engine: oneOf(SPEECH_ENGINES),
+    voice: optional(string()),
+    rate: number(0.1, 10),
+    maxLength: number(1),
+    piperPath: optional(string()),
+    piperModel: optional(string()),
+  }),
+  wakeWord: object<WakeWordConfig>({
+    enabled: boolean(),
+    phrase: string(),
+    target: oneOf(["insert", "agent"] as const),
+    modelPath: optional(string()),
+    threshold: number(0, 255),
+  }),
+  vocabulary: object<VocabularyConfig>({
+    profile: string(),
+    profiles: arrayOf(
+      object<VocabularyProfile>({
+        id: string(),
+        name: string(),
+        terms: arrayOf(string()),
+        replacements: arrayOf(replacementRule()),
+      }),
+    ),
+  }),
+  commands: object<CommandsConfig>({
+    enabled: boolean(),
+    escapePhrase: string(),
+    rules: arrayOf(
+      object<CommandRule>({
+        phrase: string(),
+        action: oneOf(COMMAND_ACTIONS),
+        text: optional(string()),
+        endOfPhrase: optional(boolean()),
+      }),
+    ),
+  }),
+  cleanup: object<CleanupConfig>({
+    style: oneOf(CLEANUP_STYLES),
+    model: string(),
+    baseUrl: optional(string()),
+    apiKey: optional(string()),
+    timeoutMs: number(1000, 120000),
+  }),
+  profiles: object<ProfilesConfig>({
+    enabled: boolean(),
+    profiles: arrayOf(
+      object<DictationProfile>({
+        id: string(),
+        name: string(),
+        appPattern: pattern(),
+        titlePattern: pattern(),
+        insertionStrategy: optional(oneOf(INSERTION_STRATEGIES)),
+        cleanupStyle: optional(oneOf(CLEANUP_STYLES)),
+        vocabularyProfile: optional(string()),
+      }),
+    ),
+  }),
+});
+
+export function validateSettings(value: unknown): Settings {
+  return settingsSchema(value, "settings");
+}
+
+export function getDefaultSettings(): Settings {
+  return {
+    version: SETTINGS_VERSION,
+    general: { openAtLogin: true },
+    window: {
+      width: 300,
+      height: 180,
+      margin: 20,
+      anchor: "bottom-right",
+      followCursor: false,
+    },
+    transcription: getTranscriptionDefaults(),
+    insertion: getInsertionDefaults(),
+    recording: getRecordingDefaults(),
+    shortcuts: getShortcutDefaults(),
+    history: {
+      enabled: true,
+      keepAudio: false,
+      maxEntries: 1000,
+      maxAgeDays: 0,
+    },
+    agent: getAgentDefaults(),
+    speech: getSpeechDefaults(),
+    wakeWord: getWakeWordDefaults(),
+    vocabulary: getVocabularyDefaults(),
+    commands: getCommandsDefaults(),
+    cleanup: getCleanupDefaults(),
+    profiles: getProfilesDefaults(),
+  };
+}
+
+// --- Migrations ---
+
+type StoredSettings = Record<string, unknown>;
+
+interface Migration {
+  version: number; // The version the stored settings are upgraded to
+  migrate: (stored: StoredSettings) => StoredSettings;
+}
+
+// In version order; a renamed or reshaped field gets a migration and a new
+// SETTINGS_VERSION, otherwise validation rejects the old file
+const migrations: Migration[] = [];
+
+// Bring stored settings up to SETTINGS_VERSION before they are validated
+function migrateSettings(stored: StoredSettings): StoredSettings {
+  let version = typeof stored.version === "number" ? stored.version : 0;
+  if (version > SETTINGS_VERSION) {
+    console.warn(
+      `Settings were written by a newer version (${version}), unknown fields are ignored.`,
+    );
+  }
+  for (const migration of migrations) {
+    if (migration.version > version) {
+      console.log(`Migrating settings to version ${migration.version}`);
+      stored = migration.migrate(stored);
+      version = migration.version;
+    }
+  }
+  return { ...stored, version: SETTINGS_VERSION };
+}
+
+// Fill in settings added since the file was written, recursing into sections
+function mergeDefaults<T>(defaults: T, stored: unknown): T {
+  if (
+    typeof defaults !== "object" ||
+    defaults === null ||
+    Array.isArray(defaults) ||
+    typeof stored !== "object" ||
+    stored === null ||
+    Array.isArray(stored)
+  ) {
+    return stored === undefined ? defaults : (stored as T);
+  }
+  const merged = { ...defaults } as Record<string, unknown>;
+  for (const [key, value] of Object.entries(stored)) {
+    merged[key] = mergeDefaults(
+      (defaults as Record<string, unknown>)[key],
+      value,
+    );
+  }
+  return merged as T;
+}
+
+// --- Store ---
+
+type SettingsListener = (settings: Settings, previous: Settings) => void;
+
+let currentSettings: Settings | null = null;
+const listeners = new Set<SettingsListener>();
+
+function getSettingsPath(): string {
+  return path.join(app.getPath("userData"), "settings.json");
+}
+
+function loadSettings(): Settings {
+  const settingsPath = getSettingsPath();
+  if (!fs.existsSync(settingsPath)) {
+    console.log("No settings file yet, using defaults.");
+    return getDefaultSettings();
+  }
+
+  try {
+    const stored = JSON.parse(fs.readFileSync(settingsPath, "utf8"));
+    return validateSettings(
+      mergeDefaults(getDefaultSettings(), migrateSettings(stored)),
+    );
+  } catch (error) {
+    // Keep the broken file around for inspection rather than overwriting it
+    console.error("Failed to load settings, using defaults:", error);
+    fs.copyFileSync(settingsPath, `${settingsPath}.invalid`);
+    return getDefaultSettings();
+  }
+}
+
+export function getSettings(): Settings {
+  if (!currentSettings) {
+    currentSettings = loadSettings();
+  }
+  return currentSettings;
+}
+
+/**
+ * Validate and persist a settings change, then notify listeners so the main
+ * process and renderers pick it up without a restart. Throws when the result
+ * would not pass the schema, leaving the stored settings untouched.
+ */
+export async function updateSettings(patch: SettingsPatch): Promise<Settings> {
+  const previous = getSettings();
+  const next = { ...previous } as Record<string, unknown>;
+  for (const [section, values] of Object.entries(patch)) {
+    next[section] = {
+      ...(previous[section as keyof Settings] as object),
+      ...values,
+    };
+  }
+  const settings = validateSettings(next);
+
+  // Write to a temporary file first so a crash never leaves a truncated file
+  const settingsPath = getSettingsPath();
+  await fs.promises.mkdir(path.dirname(settingsPath), { recursive: true });
+  await fs.promises.writeFile(
+    `${settingsPath}.tmp`,
+    JSON.stringify(settings, null, 2),
+  );
+  await fs.promises.rename(`${settingsPath}.tmp`, settingsPath);
+
+  currentSettings = settings;
+  console.log("Settings updated:", Object.keys(patch).join(", "));
+  listeners.forEach((listener) => listener(settings, previous));
+  return settings;
+}
+
+export function onSettingsChanged(listener: SettingsListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,110 @@
+// lib/shortcuts
+import { globalShortcut } from "electron";
+import type { ShortcutAction, ShortcutBinding, ShortcutConfig } from "./config";
+
+export interface ShortcutHandlers {
+  // Toggle bindings fire on every press, push-to-talk bindings once per hold
+  onPress: (binding: ShortcutBinding) => void;
+  // Only called for push-to-talk bindings when the chord is let go
+  onRelease: (binding: ShortcutBinding) => void;
+}
+
+export interface ShortcutStatus {
+  action: ShortcutAction;
+  accelerator: string;
+  registered: boolean;
+  error?: string;
+}
+
+// Normalise an accelerator so "Ctrl+Shift+X" and "shift+control+x" compare equal
+function normalizeAccelerator(accelerator: string): string {
+  const aliases: Record<string, string> = {
+    cmdorctrl: "commandorcontrol",
+    ctrl: "control",
+    cmd: "command",
+    option: "alt",
+  };
+  const keys = accelerator
+    .split("+")
+    .map((key) => key.trim().toLowerCase())
+    .map((key) => aliases[key] || key);
+  const main = keys.pop() || "";
+  return [...keys.sort(), main].join("+");
+}
+
+/**
+ * Register every binding as a global shortcut, replacing any previous
+ * registrations. Returns one status per binding so failures and conflicts can
+ * be shown to the user.
+ *
+ * Electron only reports key presses, so push-to-talk relies on the OS key
+ * repeat: while the chord is held the shortcut keeps firing, and the chord is
+ * considered released once the repeats stop.
+ */
+export function registerShortcuts(
+  config: ShortcutConfig,
+  handlers: ShortcutHandlers,
+): ShortcutStatus[] {
+  globalShortcut.unregisterAll();
+  console.log("Unregistered previous global shortcuts.");
+
+  const claimed = new Map<string, ShortcutAction>();
+
+  return config.bindings.map((binding): ShortcutStatus => {
+    const status = {
+      action: binding.action,
+      accelerator: binding.accelerator,
+    };
+
+    const key = normalizeAccelerator(binding.accelerator);
+    const owner = claimed.get(key);
+    if (owner) {
+      return {
+        ...status,
+        registered: false,
+        error: `Conflicts with the shortcut for ${owner}`,
+      };
+    }
+    claimed.set(key, binding.action);
+
+    let releaseTimer: NodeJS.Timeout | null = null;
+    const onTrigger = () => {
+      console.log(`Global shortcut triggered: ${binding.accelerator}`);
+      if (binding.mode !== "push-to-talk") {
+        handlers.onPress(binding);
+        return;
+      }
+
+      const isHeld = releaseTimer !== null;
+      if (releaseTimer) clearTimeout(releaseTimer);
+      if (!isHeld) handlers.onPress(binding);
+      releaseTimer = setTimeout(
+        () => {
+          releaseTimer = null;
+          handlers.onRelease(binding);
+        },
+        isHeld ? config.releaseDelayMs : config.initialReleaseDelayMs,
+      );
+    };
+
+    try {
+      if (!globalShortcut.register(binding.accelerator, onTrigger)) {
+        return {
+          ...status,
+          registered: false,
+          error: "Already in use by another application",
+        };
+      }
+    } catch (error: any) {
+      // Thrown for accelerators Electron cannot parse
+      return {
+        ...status,
+        registered: false,
+        error: `Invalid shortcut: ${error.message || error}`,
+      };
+    }
+
+    console.log(`Global shortcut registered: ${binding.accelerator}`);
+    return { ...status, registered: true };
+  });
+}
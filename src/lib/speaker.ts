@@ -0,0 +1,120 @@
+// lib/speaker
+// Reads agent answers aloud in the renderer, through speechSynthesis or audio synthesized by piper
+import type { SpeechConfig } from "./config";
+
+export interface SpeakerEvents {
+  onStart: () => void;
+  // `completed` is false when speech was stopped or failed
+  onEnd: (completed: boolean, error?: string) => void;
+}
+
+export interface Speaker {
+  speak(text: string, config: SpeechConfig): Promise<void>;
+  stop(): void;
+  isSpeaking(): boolean;
+}
+
+/**
+ * Turn a markdown answer into something worth listening to: code is skipped,
+ * formatting removed and the text cut at a sentence boundary near `maxLength`.
+ */
+export function toSpeechText(markdown: string, maxLength: number): string {
+  const text = markdown
+    .replace(/```[\s\S]*?(```|$)/g, " Code omitted. ")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/\[([^\]]+)\]\([^)]+\)/g, "$1")
+    .replace(/^\s*(#{1,6}|[-*+]|\d+[.)]|>)\s+/gm, "")
+    .replace(/[*_]{1,2}([^*_]+)[*_]{1,2}/g, "$1")
+    .replace(/\s+/g, " ")
+    .trim();
+  if (text.length <= maxLength) return text;
+
+  const cut = text.slice(0, maxLength);
+  const sentenceEnd = Math.max(
+    cut.lastIndexOf(". "),
+    cut.lastIndexOf("! "),
+    cut.lastIndexOf("? "),
+  );
+  return sentenceEnd > maxLength / 2 ? cut.slice(0, sentenceEnd + 1) : cut;
+}
+
+export function createSpeaker(
+  synthesize: (text: string) => Promise<ArrayBuffer>,
+  { onStart, onEnd }: SpeakerEvents,
+): Speaker {
+  let speaking = false;
+  let audio: HTMLAudioElement | null = null;
+  let audioUrl: string | null = null;
+  let generation = 0; // Ignores piper audio that arrives after stop()
+
+  const finish = (completed: boolean, error?: string) => {
+    if (audioUrl) URL.revokeObjectURL(audioUrl);
+    audio = null;
+    audioUrl = null;
+    if (!speaking) return;
+    speaking = false;
+    onEnd(completed, error);
+  };
+
+  const stop = () => {
+    generation++;
+    if (!speaking) return;
+    console.log("Stopping speech");
+    window.speechSynthesis.cancel();
+    audio?.pause();
+    finish(false);
+  };
+
+  const speakWithSystem = (text: string, config: SpeechConfig) => {
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.rate = config.rate;
+    const voice = window.speechSynthesis
+      .getVoices()
+      .find((candidate) => candidate.name === config.voice);
+    if (voice) {
+      utterance.voice = voice;
+    } else if (config.voice) {
+      console.warn(`Voice ${config.voice} not found, using the default`);
+    }
+    utterance.onend = () => finish(true);
+    // Cancelling an utterance also reports an error, which stop() has handled
+    utterance.onerror = (event) => finish(false, event.error);
+    window.speechSynthesis.speak(utterance);
+  };
+
+  const speakWithPiper = async (text: string) => {
+    const current = generation;
+    const wav = await synthesize(text);
+    if (current !== generation) return;
+
+    audioUrl = URL.createObjectURL(new Blob([wav], { type: "audio/wav" }));
+    audio = new Audio(audioUrl);
+    audio.onended = () => finish(true);
+    audio.onerror = () => finish(false, "Could not play the speech audio");
+    await audio.play();
+  };
+
+  return {
+    async speak(text, config) {
+      stop();
+      const speech = toSpeechText(text, config.maxLength);
+      if (!speech) return;
+
+      speaking = true;
+      onStart();
+      console.log(`Speaking ${speech.length} characters (${config.engine})`);
+      try {
+        if (config.engine === "piper") {
+          await speakWithPiper(speech);
+        } else {
+          speakWithSystem(speech, config);
+        }
+      } catch (error) {
+        console.error("Speech failed:", error);
+        finish(false, error instanceof Error ? error.message : String(error));
+      }
+    },
+    stop,
+    isSpeaking: () => speaking,
+  };
+}
@@ -0,0 +1,29 @@
+// lib/tempfiles
+// Temporary audio lives in a directory of Seery's own, so leftovers can be
+// swept without touching other programs' files in the system temp directory
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+const TEMP_DIR = path.join(os.tmpdir(), "seery");
+
+// A unique path, partial and final passes can write at the same time
+export async function createTempPath(
+  prefix: string,
+  extension: string,
+): Promise<string> {
+  await fs.promises.mkdir(TEMP_DIR, { recursive: true });
+  return path.join(
+    TEMP_DIR,
+    `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}.${extension}`,
+  );
+}
+
+// Temporary audio is deleted after use, anything left was written before a crash
+export async function sweepTempFiles(): Promise<void> {
+  const files = await fs.promises.readdir(TEMP_DIR).catch(() => []);
+  for (const file of files) {
+    console.log("Removing leftover temporary file:", file);
+    await fs.promises.unlink(path.join(TEMP_DIR, file)).catch(() => undefined);
+  }
+}
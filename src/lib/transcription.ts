@@ -0,0 +1,288 @@
+// lib/transcription
+import fs from "fs";
+import path from "path";
+import Groq from "groq-sdk";
+import { getBundledBinaryPath } from "./binaries";
+import type { TranscriptionConfig } from "./config";
+import { runCommand } from "./process";
+
+export interface TranscriptionOptions {
+  language?: string; // ISO-639-1 code, omitted to let the model detect it
+  prompt?: string; // Context passed to the model to bias spelling and style
+  translate?: boolean; // English text from speech in any language
+  onProgress?: (progress: TranscriptionProgress) => void; // Only reported by local engines
+}
+
+export interface TranscriptionProgress {
+  stage: "converting" | "transcribing";
+  percent: number;
+  segments?: { completed: number; total: number }; // Long recordings split into parts
+}
+
+export interface TranscriptionResult {
+  text: string;
+  language?: string; // Detected by the engine when no language was given
+}
+
+// Detected languages come as codes or English names depending on the engine
+function readLanguage(body: unknown): string | undefined {
+  const language = (body as { language?: unknown })?.language;
+  return typeof language === "string" && language ? language : undefined;
+}
+
+/**
+ * A speech-to-text backend. Implementations receive the path of an audio file
+ * written by the main process and resolve with the recognised text.
+ */
+export interface TranscriptionProvider {
+  readonly name: string;
+  transcribe(
+    filePath: string,
+    options?: TranscriptionOptions,
+  ): Promise<TranscriptionResult>;
+}
+
+// Groq hosted Whisper models through the groq-sdk
+export function createGroqProvider(
+  config: TranscriptionConfig,
+): TranscriptionProvider {
+  const apiKey = config.apiKey || process.env.GROQ_API_KEY;
+  if (!apiKey) {
+    console.error("GROQ_API_KEY is not set.");
+    throw new Error("API Key not configured.");
+  }
+  const groq = new Groq({ apiKey });
+
+  return {
+    name: "groq",
+    async transcribe(filePath, options = {}) {
+      let response;
+      if (options.translate) {
+        console.log(`Translating audio with Groq API (${config.model})...`);
+        response = await groq.audio.translations.create({
+          file: fs.createReadStream(filePath),
+          model: config.model,
+          prompt: options.prompt,
+          response_format: "json",
+        });
+      } else {
+        console.log(`Sending audio to Groq API (${config.model})...`);
+        response = await groq.audio.transcriptions.create({
+          file: fs.createReadStream(filePath),
+          model: config.model,
+          language: options.language,
+          prompt: options.prompt,
+          // verbose_json also reports the language it detected
+          response_format: options.language ? "json" : "verbose_json",
+        });
+      }
+
+      if (!response || typeof response.text !== "string") {
+        console.error("Unexpected Groq API response format:", response);
+        throw new Error("Unexpected API response format.");
+      }
+      return {
+        text: response.text,
+        language: options.translate ? undefined : readLanguage(response),
+      };
+    },
+  };
+}
+
+// Any server implementing the OpenAI `/audio/transcriptions` endpoint
+export function createOpenAICompatibleProvider(
+  config: TranscriptionConfig,
+): TranscriptionProvider {
+  if (!config.baseUrl) {
+    throw new Error("No base URL configured for the transcription endpoint.");
+  }
+  const baseUrl = config.baseUrl.replace(/\/+$/, "");
+  const apiKey = config.apiKey || process.env.TRANSCRIPTION_API_KEY;
+
+  return {
+    name: "openai",
+    async transcribe(filePath, options = {}) {
+      const form = new FormData();
+      const audio = await fs.promises.readFile(filePath);
+      form.append("file", new Blob([audio]), path.basename(filePath));
+      form.append("model", config.model);
+      // verbose_json also reports the language the model detected
+      form.append(
+        "response_format",
+        options.language || options.translate ? "json" : "verbose_json",
+      );
+      if (options.language && !options.translate) {
+        form.append("language", options.language);
+      }
+      if (options.prompt) form.append("prompt", options.prompt);
+
+      const endpoint = `${baseUrl}/audio/${options.translate ? "translations" : "transcriptions"}`;
+      console.log(`Sending audio to ${endpoint} (${config.model})...`);
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+        body: form,
+      });
+      if (!response.ok) {
+        throw new Error(
+          `Server responded ${response.status}: ${await response.text()}`,
+        );
+      }
+
+      const body = await response.json();
+      if (!body || typeof body.text !== "string") {
+        console.error("Unexpected transcription response format:", body);
+        throw new Error("Unexpected API response format.");
+      }
+      return {
+        text: body.text,
+        language: options.translate ? undefined : readLanguage(body),
+      };
+    },
+  };
+}
+
+export const TRANSLATE_UNSUPPORTED =
+  "The custom transcription command cannot translate to English.";
+
+// A command line engine that prints the transcript of `{file}` on stdout
+export function createCommandProvider(
+  config: TranscriptionConfig,
+): TranscriptionProvider {
+  if (!config.command) {
+    throw new Error("No transcription command configured.");
+  }
+  const command = config.command;
+
+  return {
+    name: "local",
+    async transcribe(filePath, options = {}) {
+      // There is no way to ask an arbitrary engine for English
+      if (options.translate) throw new Error(TRANSLATE_UNSUPPORTED);
+
+      const values: Record<string, string> = {
+        "{file}": filePath,
+        "{model}": config.model,
+        "{language}": options.language || "",
+        "{prompt}": options.prompt || "",
+      };
+      const placeholders = Object.keys(values);
+      const args = config.args
+        .filter((arg) => arg !== "")
+        // Arguments with an empty placeholder are left out, so
+        // "--language={language}" is only passed when there is a language
+        .filter((arg) =>
+          placeholders.every((key) => !arg.includes(key) || values[key]),
+        )
+        .map((arg) =>
+          placeholders.reduce(
+            (result, key) => result.replace(key, values[key]),
+            arg,
+          ),
+        );
+
+      console.log("Running local transcription:", command, args.join(" "));
+      const stdout = await runCommand(command, args);
+      return { text: stdout.trim() };
+    },
+  };
+}
+
+// 16 kHz mono 16-bit WAV, what whisper.cpp reads and long recordings are split from
+export async function convertToWav(
+  filePath: string,
+  wavPath: string,
+  ffmpegPath?: string,
+): Promise<void> {
+  await runCommand(ffmpegPath || getBundledBinaryPath("ffmpeg"), [
+    "-y",
+    "-i",
+    filePath,
+    "-ar",
+    "16000",
+    "-ac",
+    "1",
+    "-c:a",
+    "pcm_s16le",
+    wavPath,
+  ]);
+}
+
+// The settings whisper.cpp runs with, also used on their own for wake word spotting
+export type WhisperCppConfig = Pick<
+  TranscriptionConfig,
+  "command" | "modelPath" | "threads" | "ffmpegPath"
+>;
+
+// whisper.cpp (`whisper-cli`) with a ggml model file, fully offline
+export function createWhisperCppProvider(
+  config: WhisperCppConfig,
+): TranscriptionProvider {
+  if (!config.modelPath) {
+    throw new Error("No whisper.cpp model file configured.");
+  }
+  const modelPath = config.modelPath;
+  const command = config.command || getBundledBinaryPath("whisper-cli");
+
+  return {
+    name: "whisper-cpp",
+    async transcribe(filePath, options = {}) {
+      // whisper.cpp only reads 16 kHz WAV, so convert anything else first
+      let wavPath = filePath;
+      if (path.extname(filePath).toLowerCase() !== ".wav") {
+        wavPath = filePath.replace(/\.[^.]+$/, "") + ".16k.wav";
+        options.onProgress?.({ stage: "converting", percent: 0 });
+        await convertToWav(filePath, wavPath, config.ffmpegPath);
+      }
+
+      try {
+        const args = ["-m", modelPath, "-f", wavPath, "-nt", "-pp"];
+        if (config.threads) args.push("-t", String(config.threads));
+        // whisper.cpp assumes English unless told to detect the language
+        args.push("-l", options.language || "auto");
+        if (options.translate) args.push("-tr");
+        if (options.prompt) args.push("--prompt", options.prompt);
+
+        console.log("Running whisper.cpp:", command, args.join(" "));
+        options.onProgress?.({ stage: "transcribing", percent: 0 });
+        let language: string | undefined;
+        const stdout = await runCommand(command, args, (chunk) => {
+          // whisper_print_progress_callback: progress =  40%
+          const match = /progress\s*=\s*(\d+)%/.exec(chunk);
+          if (match) {
+            options.onProgress?.({
+              stage: "transcribing",
+              percent: Number(match[1]),
+            });
+          }
+          // whisper_full_with_state: auto-detected language: de (p = 0.97)
+          const detected = /auto-detected language: (\w+)/.exec(chunk);
+          if (detected) language = detected[1];
+        });
+        return {
+          text: stdout.replace(/\s+/g, " ").trim(),
+          language: options.translate ? undefined : language,
+        };
+      } finally {
+        if (wavPath !== filePath) {
+          await fs.promises.unlink(wavPath).catch(() => undefined);
+        }
+      }
+    },
+  };
+}
+
+export function createTranscriptionProvider(
+  config: TranscriptionConfig,
+): TranscriptionProvider {
+  switch (config.provider) {
+    case "groq":
+      return createGroqProvider(config);
+    case "openai":
+      return createOpenAICompatibleProvider(config);
+    case "local":
+      return createCommandProvider(config);
+    case "whisper-cpp":
+      return createWhisperCppProvider(config);
+  }
+}
@@ -0,0 +1,65 @@
+// lib/tray
+// Tray icons drawn at runtime, a dot coloured by pipeline stage, so no image files need bundling
+import { nativeImage, NativeImage } from "electron";
+import type { PipelineStatus } from "../types/electron-api";
+
+const SIZE = 32; // Pixels, drawn at scale factor 2 for a 16pt icon
+const OUTER_RADIUS = 13;
+const RING_RADIUS = 9; // Idle draws a ring instead of a filled dot
+
+const STATUS_COLORS: Record<PipelineStatus, [number, number, number]> = {
+  idle: [150, 150, 150],
+  recording: [231, 76, 60],
+  transcribing: [243, 156, 18],
+  agent: [52, 152, 219],
+  answering: [46, 204, 113],
+  error: [192, 57, 43],
+};
+
+export const STATUS_LABELS: Record<PipelineStatus, string> = {
+  idle: "Ready",
+  recording: "Recording…",
+  transcribing: "Transcribing…",
+  agent: "Waiting for the agent…",
+  answering: "Showing an answer",
+  error: "Something went wrong",
+};
+
+const icons = new Map<PipelineStatus, NativeImage>();
+
+// Coverage of a pixel by a disc, for antialiased edges
+function coverage(distance: number, radius: number): number {
+  return Math.max(0, Math.min(1, radius - distance + 0.5));
+}
+
+export function getTrayIcon(status: PipelineStatus): NativeImage {
+  const cached = icons.get(status);
+  if (cached) return cached;
+
+  const [red, green, blue] = STATUS_COLORS[status];
+  // Raw bitmaps are premultiplied BGRA
+  const bitmap = Buffer.alloc(SIZE * SIZE * 4);
+  const center = SIZE / 2 - 0.5;
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const distance = Math.hypot(x - center, y - center);
+      let alpha = coverage(distance, OUTER_RADIUS);
+      if (status === "idle") {
+        alpha = Math.min(alpha, 1 - coverage(distance, RING_RADIUS));
+      }
+      const offset = (y * SIZE + x) * 4;
+      bitmap[offset] = Math.round(blue * alpha);
+      bitmap[offset + 1] = Math.round(green * alpha);
+      bitmap[offset + 2] = Math.round(red * alpha);
+      bitmap[offset + 3] = Math.round(255 * alpha);
+    }
+  }
+
+  const icon = nativeImage.createFromBitmap(bitmap, {
+    width: SIZE,
+    height: SIZE,
+    scaleFactor: 2,
+  });
+  icons.set(status, icon);
+  return icon;
+}
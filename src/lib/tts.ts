@@ -0,0 +1,40 @@
+// lib/tts
+// Local text-to-speech engines run in the main process
+import fs from "fs";
+import { getBundledBinaryPath } from "./binaries";
+import type { SpeechConfig } from "./config";
+import { runCommand } from "./process";
+import { createTempPath } from "./tempfiles";
+
+// piper reads the text on stdin and writes a WAV file
+export async function synthesizeWithPiper(
+  text: string,
+  config: SpeechConfig,
+): Promise<Buffer> {
+  if (!config.piperModel) {
+    throw new Error("No piper voice model configured.");
+  }
+  const command = config.piperPath || getBundledBinaryPath("piper");
+  const outputPath = await createTempPath("speech", "wav");
+
+  try {
+    console.log(`Synthesizing ${text.length} characters with piper...`);
+    await runCommand(
+      command,
+      [
+        "--model",
+        config.piperModel,
+        // piper stretches time, so a faster rate is a shorter length
+        "--length_scale",
+        String(1 / config.rate),
+        "--output_file",
+        outputPath,
+      ],
+      undefined,
+      text,
+    );
+    return await fs.promises.readFile(outputPath);
+  } finally {
+    await fs.promises.unlink(outputPath).catch(() => undefined);
+  }
+}
@@ -0,0 +1,59 @@
+// lib/vad
+// Energy based voice activity detection over the analyser levels computed in renderer.ts
+
+export interface VoiceActivityOptions {
+  threshold: number; // Average frequency level (0-255) counted as speech
+  silenceDurationMs: number; // Silence after speech that ends the utterance
+  minSpeechMs: number; // Voiced time below which a recording is treated as empty
+}
+
+export type VoiceActivityEvent = "speech-start" | "silence-timeout";
+
+export interface VoiceActivityDetector {
+  // Feed one level sample, returns an event the first time speech starts or stops
+  update(level: number, timestamp: number): VoiceActivityEvent | null;
+  hasSpeech(): boolean;
+  reset(): void;
+}
+
+export function createVoiceActivityDetector(
+  options: VoiceActivityOptions,
+): VoiceActivityDetector {
+  let lastTimestamp: number | null = null;
+  let lastVoiceAt: number | null = null;
+  let voicedMs = 0;
+  let silenceReported = false;
+
+  return {
+    update(level, timestamp) {
+      const elapsed = lastTimestamp === null ? 0 : timestamp - lastTimestamp;
+      lastTimestamp = timestamp;
+
+      if (level >= options.threshold) {
+        const isOnset = lastVoiceAt === null;
+        voicedMs += elapsed;
+        lastVoiceAt = timestamp;
+        return isOnset ? "speech-start" : null;
+      }
+
+      if (
+        lastVoiceAt !== null &&
+        !silenceReported &&
+        timestamp - lastVoiceAt >= options.silenceDurationMs
+      ) {
+        silenceReported = true;
+        return "silence-timeout";
+      }
+      return null;
+    },
+    hasSpeech() {
+      return voicedMs >= options.minSpeechMs;
+    },
+    reset() {
+      lastTimestamp = null;
+      lastVoiceAt = null;
+      voicedMs = 0;
+      silenceReported = false;
+    },
+  };
+}
@@ -0,0 +1,148 @@
+// lib/vocabulary
+// Custom vocabulary: terms that bias the model through its prompt, and a
+// replacement dictionary applied to what it returns
+import {
+  DEFAULT_VOCABULARY_PROFILE,
+  ReplacementRule,
+  VocabularyConfig,
+  VocabularyProfile,
+} from "./config";
+
+export interface Vocabulary {
+  terms: string[];
+  replacements: ReplacementRule[];
+}
+
+// Whisper only looks at the last 224 tokens of the prompt, keep well under that
+const MAX_PROMPT_LENGTH = 600;
+const EXPORT_FORMAT = "seery-vocabulary";
+
+// The default profile plus the selected one, or just the default one
+export function getVocabulary(
+  config: VocabularyConfig,
+  profileId = config.profile,
+): Vocabulary {
+  const ids = [DEFAULT_VOCABULARY_PROFILE, profileId];
+  const profiles = config.profiles.filter((profile) =>
+    ids.includes(profile.id),
+  );
+  return profiles.reduce<Vocabulary>(
+    (vocabulary, profile) => ({
+      terms: vocabulary.terms.concat(
+        profile.terms.filter((term) => !vocabulary.terms.includes(term)),
+      ),
+      replacements: vocabulary.replacements.concat(profile.replacements),
+    }),
+    { terms: [], replacements: [] },
+  );
+}
+
+/**
+ * A prompt listing the terms, which makes the model prefer their spelling.
+ * Terms that do not fit are dropped from the end.
+ */
+export function buildPrompt(terms: string[]): string | undefined {
+  let prompt = "";
+  for (const term of terms) {
+    const next = prompt ? `${prompt}, ${term}` : term;
+    if (next.length > MAX_PROMPT_LENGTH) {
+      console.warn(
+        `Vocabulary too long for the prompt, dropped from "${term}"`,
+      );
+      break;
+    }
+    prompt = next;
+  }
+  return prompt ? `${prompt}.` : undefined;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Also used to validate rules, so a saved pattern always compiles here
+export function toRegExp(rule: ReplacementRule): RegExp {
+  const flags = rule.caseSensitive ? "gu" : "giu";
+  if (rule.regex) return new RegExp(rule.from, flags);
+  // Plain text only matches whole words, "ai" must not change "said"
+  const start = /^\w/.test(rule.from) ? "\\b" : "";
+  const end = /\w$/.test(rule.from) ? "\\b" : "";
+  return new RegExp(`${start}${escapeRegExp(rule.from)}${end}`, flags);
+}
+
+export function applyReplacements(
+  text: string,
+  rules: ReplacementRule[],
+): string {
+  return rules.reduce((result, rule) => {
+    if (!rule.from) return result;
+    try {
+      // Plain replacements are literal, "$" in them is not a group reference
+      return rule.regex
+        ? result.replace(toRegExp(rule), rule.to)
+        : result.replace(toRegExp(rule), () => rule.to);
+    } catch (error) {
+      console.warn(`Skipping replacement rule "${rule.from}":`, error);
+      return result;
+    }
+  }, text);
+}
+
+// --- Sharing ---
+
+export function exportVocabulary(profiles: VocabularyProfile[]): string {
+  return JSON.stringify(
+    { format: EXPORT_FORMAT, version: 1, profiles },
+    null,
+    2,
+  );
+}
+
+/**
+ * Read profiles from an exported file. Plain text is accepted too, one term
+ * per line, and becomes a profile named after the file. Only the shape is
+ * checked here, the settings schema validates the rest when the profiles are saved.
+ */
+export function parseVocabulary(
+  content: string,
+  fileName: string,
+): VocabularyProfile[] {
+  const trimmed = content.trim();
+  if (!trimmed.startsWith("{")) {
+    const name = fileName.replace(/\.[^.]+$/, "") || "Imported";
+    return [
+      {
+        id: name.toLowerCase().replace(/[^a-z0-9]+/g, "-"),
+        name,
+        terms: trimmed
+          .split(/\r?\n/)
+          .map((line) => line.trim())
+          .filter((line) => line && !line.startsWith("#")),
+        replacements: [],
+      },
+    ];
+  }
+
+  const data = JSON.parse(trimmed);
+  if (data?.format !== EXPORT_FORMAT || !Array.isArray(data.profiles)) {
+    throw new Error("Not a Seery vocabulary file.");
+  }
+  return data.profiles;
+}
+
+// Imported profiles replace the ones with the same id, the rest are added
+export function mergeProfiles(
+  current: VocabularyProfile[],
+  imported: VocabularyProfile[],
+): VocabularyProfile[] {
+  const merged = [...current];
+  for (const profile of imported) {
+    const index = merged.findIndex((existing) => existing.id === profile.id);
+    if (index === -1) {
+      merged.push(profile);
+    } else {
+      merged[index] = profile;
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,82 @@
+// lib/wakeword
+// Spots the wake phrase in short speech clips with a local whisper.cpp model.
+// Clips are only ever handled here, nothing is sent over the network.
+import fs from "fs";
+import type { TranscriptionConfig, WakeWordConfig } from "./config";
+import { createTempPath } from "./tempfiles";
+import { createWhisperCppProvider } from "./transcription";
+
+export interface WakeWordResult {
+  detected: boolean;
+  text: string; // What the model heard, for tuning the phrase
+}
+
+// Lower-cased words without punctuation
+function toWords(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}']+/gu) || [];
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Whether `text` contains the phrase, tolerating the small misspellings a
+ * model makes with unusual names ("hey seri" for "hey seery").
+ */
+export function matchesWakePhrase(text: string, phrase: string): boolean {
+  const phraseWords = toWords(phrase);
+  const target = phraseWords.join(" ");
+  const words = toWords(text);
+  const length = phraseWords.length;
+  if (!target || words.length < length) return false;
+
+  const tolerance = Math.max(1, Math.floor(target.length / 4));
+  for (let i = 0; i + length <= words.length; i++) {
+    const candidate = words.slice(i, i + length).join(" ");
+    if (editDistance(candidate, target) <= tolerance) return true;
+  }
+  return false;
+}
+
+export async function detectWakeWord(
+  wav: Buffer,
+  config: WakeWordConfig,
+  transcription: TranscriptionConfig,
+): Promise<WakeWordResult> {
+  // Always the offline engine, whatever provider dictation uses; the dictation
+  // command is only whisper-cli when that provider is whisper.cpp as well
+  const provider = createWhisperCppProvider({
+    command:
+      transcription.provider === "whisper-cpp"
+        ? transcription.command
+        : process.env.WHISPER_CPP_PATH,
+    modelPath: config.modelPath || transcription.modelPath,
+    threads: transcription.threads,
+  });
+
+  const clipPath = await createTempPath("wake", "wav");
+  await fs.promises.writeFile(clipPath, wav);
+  try {
+    // No prompt: whisper tends to repeat it back on noise, which would wake us.
+    // A fixed language skips detection, which is slow and unreliable on short clips.
+    const { text } = await provider.transcribe(clipPath, {
+      language: transcription.language || "en",
+    });
+    return { detected: matchesWakePhrase(text, config.phrase), text };
+  } finally {
+    await fs.promises.unlink(clipPath).catch(() => undefined);
+  }
+}
@@ -0,0 +1,71 @@
+// lib/wav
+// PCM helpers for audio captured in the renderer: resampling and 16-bit WAV encoding
+
+// Linear interpolation, averaging the skipped samples when downsampling
+export function resample(
+  samples: Float32Array,
+  fromRate: number,
+  toRate: number,
+): Float32Array {
+  if (fromRate === toRate) return samples;
+  const ratio = fromRate / toRate;
+  const output = new Float32Array(Math.floor(samples.length / ratio));
+
+  for (let i = 0; i < output.length; i++) {
+    const start = i * ratio;
+    const end = Math.min(start + ratio, samples.length);
+    if (ratio > 1) {
+      let sum = 0;
+      let count = 0;
+      for (let j = Math.floor(start); j < end; j++) {
+        sum += samples[j];
+        count++;
+      }
+      output[i] = count > 0 ? sum / count : 0;
+    } else {
+      const index = Math.floor(start);
+      const next = Math.min(index + 1, samples.length - 1);
+      const fraction = start - index;
+      output[i] = samples[index] * (1 - fraction) + samples[next] * fraction;
+    }
+  }
+  return output;
+}
+
+// Mono 16-bit PCM WAV, the format whisper.cpp reads directly
+export function encodeWav(
+  samples: Float32Array,
+  sampleRate: number,
+): ArrayBuffer {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, "RIFF");
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  view.setUint32(16, 16, true); // Size of the fmt chunk
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // Byte rate
+  view.setUint16(32, 2, true); // Block align
+  view.setUint16(34, 16, true); // Bits per sample
+  writeString(36, "data");
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(
+      44 + i * 2,
+      sample < 0 ? sample * 0x8000 : sample * 0x7fff,
+      true,
+    );
+  }
+  return buffer;
+}
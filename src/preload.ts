@@ -7,22 +7,137 @@ contextBridge.exposeInMainWorld("electronAPI", {
     ipcRenderer.on("test-message", (_, message) => callback(message)),
   onToggleRecording: (callback: any) => {
     console.log("Setting up onToggleRecording in preload");
-    ipcRenderer.on("toggle-recording", (event) => {
+    ipcRenderer.on("toggle-recording", (event, request) => {
       console.log("toggle-recording event received in preload", event);
-      callback();
+      callback(request);
     });
   },
-  transcribeAudio: (arrayBuffer: any) => {
+  onStartRecording: (callback: any) =>
+    ipcRenderer.on("start-recording", (_, request) => callback(request)),
+  onStopRecording: (callback: any) =>
+    ipcRenderer.on("stop-recording", () => callback()),
+  onCancelRecording: (callback: any) =>
+    ipcRenderer.on("cancel-recording", () => callback()),
+  transcribeAudio: (arrayBuffer: any, request?: unknown) => {
     console.log("ArrayBuffer size in preload:", arrayBuffer.byteLength);
-    return ipcRenderer.invoke("transcribe-audio", arrayBuffer);
+    return ipcRenderer.invoke("transcribe-audio", arrayBuffer, request);
   },
+  getSettings: () => ipcRenderer.invoke("settings:get"),
+  updateSettings: (patch: unknown) =>
+    ipcRenderer.invoke("settings:update", patch),
+  onSettingsChanged: (callback: any) => {
+    const listener = (_: unknown, settings: unknown) => callback(settings);
+    ipcRenderer.on("settings-changed", listener);
+    return () => {
+      ipcRenderer.removeListener("settings-changed", listener);
+    };
+  },
+  simulateTyping: (text: string) => ipcRenderer.invoke("simulate-typing", text),
   hideWindow: () => ipcRenderer.invoke("hide-window"),
   requestMicrophoneAccess: () =>
     ipcRenderer.invoke("request-microphone-access"),
-  onTranscriptionResult: (callback: any) =>
-    ipcRenderer.on("transcription-result", (_, result) => callback(result)),
-  runPrompt: (promptText: string) =>
-    ipcRenderer.invoke("goose:runPrompt", promptText),
+  transcribePartial: (
+    sessionId: string,
+    arrayBuffer: ArrayBuffer,
+    format?: string,
+    translate?: boolean,
+  ) =>
+    ipcRenderer.invoke(
+      "transcribe-partial",
+      sessionId,
+      arrayBuffer,
+      format,
+      translate,
+    ),
+  onTranscriptionResult: (callback: any) => {
+    const listener = (_: unknown, result: unknown) => callback(result);
+    ipcRenderer.on("transcription-result", listener);
+    return () => {
+      ipcRenderer.removeListener("transcription-result", listener);
+    };
+  },
+  onTranscriptionProgress: (callback: any) =>
+    ipcRenderer.on("transcription-progress", (_, progress) =>
+      callback(progress),
+    ),
+  listHistory: (query?: unknown) => ipcRenderer.invoke("history:list", query),
+  deleteHistoryEntry: (id: string) => ipcRenderer.invoke("history:delete", id),
+  reinsertHistoryEntry: (id: string, raw?: boolean) =>
+    ipcRenderer.invoke("history:reinsert", id, raw),
+  getHistoryAudio: (id: string) => ipcRenderer.invoke("history:get-audio", id),
+  onHistoryChanged: (callback: any) => {
+    const listener = () => callback();
+    ipcRenderer.on("history-changed", listener);
+    return () => {
+      ipcRenderer.removeListener("history-changed", listener);
+    };
+  },
+  listQueuedJobs: () => ipcRenderer.invoke("queue:list"),
+  retryQueuedJob: (id: string) => ipcRenderer.invoke("queue:retry", id),
+  discardQueuedJob: (id: string) => ipcRenderer.invoke("queue:discard", id),
+  onQueueChanged: (callback: any) => {
+    const listener = () => callback();
+    ipcRenderer.on("queue-changed", listener);
+    return () => {
+      ipcRenderer.removeListener("queue-changed", listener);
+    };
+  },
+  importVocabulary: () => ipcRenderer.invoke("vocabulary:import"),
+  exportVocabulary: (profileIds?: string[]) =>
+    ipcRenderer.invoke("vocabulary:export", profileIds),
+  getShortcutStatus: () => ipcRenderer.invoke("shortcuts:get-status"),
+  getPipelineStatus: () => ipcRenderer.invoke("pipeline:get-status"),
+  reportRecordingStatus: (status: string, message?: string) =>
+    ipcRenderer.send("pipeline:recording-status", status, message),
+  onPipelineStatus: (callback: any) => {
+    const listener = (_: unknown, event: unknown) => callback(event);
+    ipcRenderer.on("pipeline-status", listener);
+    return () => {
+      ipcRenderer.removeListener("pipeline-status", listener);
+    };
+  },
+  resizeOverlay: (width: number, height: number) =>
+    ipcRenderer.send("overlay:resize", width, height),
+  insertAnswer: () => ipcRenderer.invoke("answer:insert"),
+  dismissAnswer: () => ipcRenderer.send("answer:dismiss"),
+  synthesizeSpeech: (text: string) =>
+    ipcRenderer.invoke("speech:synthesize", text),
+  reportSpeechStatus: (status: string) =>
+    ipcRenderer.send("speech:status", status),
+  onStopSpeech: (callback: any) =>
+    ipcRenderer.on("stop-speech", () => callback()),
+  checkWakeWord: (wav: ArrayBuffer) =>
+    ipcRenderer.invoke("wake-word:check", wav),
+  getWakeWordState: () => ipcRenderer.invoke("wake-word:get-state"),
+  setWakeWordPaused: (paused: boolean) =>
+    ipcRenderer.invoke("wake-word:set-paused", paused),
+  reportMicrophoneStatus: (status: unknown) =>
+    ipcRenderer.send("microphone:status", status),
+  getMicrophoneStatus: () => ipcRenderer.invoke("microphone:get-status"),
+  onMicrophoneStatus: (callback: any) => {
+    const listener = (_: unknown, status: unknown) => callback(status);
+    ipcRenderer.on("microphone-status", listener);
+    return () => {
+      ipcRenderer.removeListener("microphone-status", listener);
+    };
+  },
+  onWakeWordState: (callback: any) => {
+    const listener = (_: unknown, state: unknown) => callback(state);
+    ipcRenderer.on("wake-word-state", listener);
+    return () => {
+      ipcRenderer.removeListener("wake-word-state", listener);
+    };
+  },
+  runPrompt: (promptText: string, backendId?: string) =>
+    ipcRenderer.invoke("agent:run", promptText, backendId),
+  cancelPrompt: (runId?: string) => ipcRenderer.invoke("agent:cancel", runId),
+  onPromptOutput: (callback: any) => {
+    const listener = (_: unknown, output: unknown) => callback(output);
+    ipcRenderer.on("agent:output", listener);
+    return () => {
+      ipcRenderer.removeListener("agent:output", listener);
+    };
+  },
 });
 
 console.log("Preload script executed");
@@ -29,22 +29,63 @@
 
 import "./index.css";
 import "./app";
+import {
+  extensionForMimeType,
+  pickRecorderMimeType,
+  prepareRecording,
+} from "./lib/audio";
+import {
+  getAudioConstraints,
+  listInputDevices,
+  resolveInputDevice,
+} from "./lib/devices";
+import { createWakeWordListener } from "./lib/listener";
+import { createSpeaker } from "./lib/speaker";
+import { createVoiceActivityDetector } from "./lib/vad";
 let mediaRecorder;
 let audioChunks = [];
+let recorderMimeType = "audio/webm"; // What the recorder actually produces, set when it starts
 let isRecording = false;
 let isAudioInitialized = false;
 let audioContext;
 let analyser;
-const MIN_RECORDING_DURATION = 100;
+const STREAMING_TIMESLICE = 2000; // Emit a chunk (and a partial transcript) every 2s
+const PARTIAL_WINDOW_CHUNKS = 15; // Partials cover the last 30s, so each upload stays small
+let sessionId = null;
+let partialInFlight = false;
+let recordingConfig = null;
+let voiceActivity = null;
+let isArmed = false; // Hands-free: the recorder runs but waits for speech before it counts as recording
+let armedAt = 0;
+let speechStartedAt = 0; // Hands-free: when speech was heard, the recorder runs from arming
+const PRE_ROLL_MS = 300; // Kept before the detected onset so the first word is not clipped
+let recordingTarget = "insert"; // "insert" types the transcript, "agent" sends it to the agent
+let agentBackend = null; // Agent target: backend chosen by the shortcut, null for the default
+let translateRecording = false; // Transcribe into English from any spoken language
+let isStarting = false;
+let stopRequested = false; // Push-to-talk released before the recorder was ready
+let isCancelled = false;
+let recordingStartedAt = 0;
+let isHandsFree = false; // Stop on silence, from the settings or because the wake word started it
+let audioSource = null;
+let audioStream = null;
+let activeDevice = null; // { deviceId, label, fallback } of the open stream
+let devicePreference = {}; // The saved choice the open stream was resolved from
+let pendingDeviceSwitch = false; // Devices changed mid-recording, reopen once it ends
+let silentSince = null;
+let isMicrophoneSilent = false;
+const SILENT_LEVEL = 0.5; // Below any real room noise, a muted or dead input reads 0
+const SILENT_WARNING_MS = 4000;
+let wakeWordListener = null;
+let wakeWordState = { enabled: false, paused: false };
+let pipelineIdle = true;
 
 async function initializeAudio() {
   try {
     await window.electronAPI.requestMicrophoneAccess();
-    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
     audioContext = new (window.AudioContext || window.webkitAudioContext)();
     analyser = audioContext.createAnalyser();
-    const source = audioContext.createMediaStreamSource(stream);
-    source.connect(analyser);
+    const stream = await openAudioInput();
     console.log("Audio stream initialized successfully");
     isAudioInitialized = true;
     return stream;
@@ -54,7 +95,102 @@ async function initializeAudio() {
   }
 }
 
-async function startRecording() {
+function reportMicrophoneStatus() {
+  window.electronAPI.reportMicrophoneStatus({
+    label: activeDevice.label,
+    fallback: activeDevice.fallback,
+    silent: isMicrophoneSilent,
+  });
+}
+
+// Open the chosen microphone, or the default one when it is not connected
+async function openAudioInput() {
+  const { recording } = await window.electronAPI.getSettings();
+  devicePreference = {
+    deviceId: recording.inputDeviceId,
+    label: recording.inputDeviceLabel,
+  };
+  let device = await resolveInputDevice(devicePreference);
+
+  let stream;
+  try {
+    stream = await navigator.mediaDevices.getUserMedia(
+      getAudioConstraints(device),
+    );
+  } catch (error) {
+    if (!device.deviceId) throw error;
+    console.warn(`Could not open ${device.label}, using the default:`, error);
+    device = { deviceId: null, label: "System default", fallback: true };
+    stream = await navigator.mediaDevices.getUserMedia(
+      getAudioConstraints(device),
+    );
+  }
+
+  // Replace the previous stream, the analyser keeps feeding the VAD
+  if (audioSource) audioSource.disconnect();
+  audioStream?.getTracks().forEach((track) => track.stop());
+  audioStream = stream;
+  audioSource = audioContext.createMediaStreamSource(stream);
+  audioSource.connect(analyser);
+
+  // The track ends when the microphone is unplugged
+  const [track] = stream.getAudioTracks();
+  device.label = track?.label || device.label;
+  track?.addEventListener("ended", () => {
+    console.warn(`Microphone ${device.label} disconnected`);
+    if (stream !== audioStream) return;
+    if (isRecording) {
+      // Keep what was captured, the next recording uses another device
+      pendingDeviceSwitch = true;
+      stopRecording();
+    } else {
+      switchAudioInput();
+    }
+  });
+
+  activeDevice = device;
+  isMicrophoneSilent = false;
+  silentSince = null;
+  console.log(
+    `Recording from ${device.label}${device.fallback ? " (fallback)" : ""}`,
+  );
+  reportMicrophoneStatus();
+  return stream;
+}
+
+// Reopen the input after a device change, once no recording depends on the stream
+async function switchAudioInput() {
+  if (!isAudioInitialized) return;
+  if (isRecording || isStarting || isArmed) {
+    pendingDeviceSwitch = true;
+    return;
+  }
+  pendingDeviceSwitch = false;
+  try {
+    await openAudioInput();
+    // The wake word listener is bound to the old source
+    wakeWordListener?.dispose();
+    wakeWordListener = null;
+    updateWakeWordListening();
+  } catch (error) {
+    console.error("Error switching microphone:", error);
+  }
+}
+
+async function startRecording({
+  target = "insert",
+  agentBackend: backend = null,
+  translate = false,
+  pushToTalk = false,
+  handsFree = null,
+} = {}) {
+  recordingTarget = target;
+  agentBackend = backend;
+  translateRecording = translate;
+  isCancelled = false;
+  stopRequested = false;
+  isStarting = true;
+  window.electronAPI.reportRecordingStatus("recording");
   try {
     if (!isAudioInitialized) {
       console.log("Initializing audio before first recording");
@@ -62,19 +198,78 @@ async function startRecording() {
       await new Promise((resolve) => setTimeout(resolve, 1000));
     }
 
-    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-    mediaRecorder = new MediaRecorder(stream);
+    // Read on every start so changes from the settings window apply immediately
+    recordingConfig = (await window.electronAPI.getSettings()).recording;
+    voiceActivity = createVoiceActivityDetector({
+      threshold: recordingConfig.silenceThreshold,
+      silenceDurationMs: recordingConfig.silenceDurationMs,
+      minSpeechMs: recordingConfig.minSpeechMs,
+    });
+
+    if (stopRequested) {
+      console.log("Released or cancelled before the recorder started");
+      window.electronAPI.reportRecordingStatus("idle");
+      return;
+    }
+
+    // Push-to-talk already marks the start and end of speech
+    isHandsFree = handsFree ?? recordingConfig.handsFree;
+    if (isHandsFree && !pushToTalk) {
+      // The recorder already runs while waiting so the onset of the first word
+      // is kept; the wait before it is cut once the recording stops
+      isArmed = true;
+      armedAt = performance.now();
+      console.log("Hands-free: waiting for speech");
+    }
+
+    await startRecorder();
+  } catch (error) {
+    console.error("Error starting recording:", error);
+    window.electronAPI.reportRecordingStatus(
+      "error",
+      `Could not start recording: ${error.message || error}`,
+    );
+  } finally {
+    isStarting = false;
+  }
+}
+
+async function startRecorder() {
+  try {
+    // The stream opened for the chosen microphone, also watched by the analyser
+    const mimeType = pickRecorderMimeType();
+    mediaRecorder = new MediaRecorder(
+      audioStream,
+      mimeType ? { mimeType } : undefined,
+    );
+    recorderMimeType = mediaRecorder.mimeType || mimeType || "audio/webm";
     audioChunks = [];
+    sessionId = `${Date.now()}`;
     mediaRecorder.ondataavailable = (event) => {
       audioChunks.push(event.data);
+      if (isRecording) {
+        sendPartialTranscription();
+      }
     };
     mediaRecorder.onstop = handleRecordingStop;
-    mediaRecorder.start();
+    mediaRecorder.start(STREAMING_TIMESLICE);
+    recordingStartedAt = Date.now();
+    speechStartedAt = recordingStartedAt;
+    checkAudioLevels();
+    if (isArmed) return;
     isRecording = true;
     console.log("Recording started");
-    checkAudioLevels();
+    if (stopRequested) {
+      console.log("Stop was requested while starting");
+      stopRecording();
+    }
   } catch (error) {
-    console.error("Error starting recording:", error);
+    isArmed = false;
+    console.error("Error starting recorder:", error);
+    window.electronAPI.reportRecordingStatus(
+      "error",
+      `Could not start recording: ${error.message || error}`,
+    );
   }
 }
 
@@ -84,12 +279,36 @@ function stopRecording() {
       mediaRecorder.stop();
       isRecording = false;
       console.log("Recording stopped");
-    }, MIN_RECORDING_DURATION);
+    }, recordingConfig.minRecordingDurationMs);
     return true;
   }
   return false;
 }
 
+// Hands-free: stop the recorder that was waiting for speech and drop its audio
+function stopListening() {
+  isArmed = false;
+  isCancelled = true;
+  if (mediaRecorder && mediaRecorder.state !== "inactive") {
+    mediaRecorder.stop(); // handleRecordingStop reports idle
+  } else {
+    window.electronAPI.reportRecordingStatus("idle");
+  }
+}
+
+// Stop and throw the recording away instead of transcribing it
+function cancelRecording() {
+  if (isArmed) {
+    stopListening();
+  } else if (isStarting) {
+    isCancelled = true;
+    stopRequested = true;
+  } else if (isRecording) {
+    isCancelled = true;
+    stopRecording();
+  }
+}
+
 function checkAudioLevel(dataArray) {
   analyser.getByteFrequencyData(dataArray);
   const average =
@@ -104,7 +323,9 @@ function checkAudioLevel(dataArray) {
 
 async function testMicrophone() {
   try {
-    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const stream = await navigator.mediaDevices.getUserMedia(
+      getAudioConstraints(activeDevice || { deviceId: null }),
+    );
     const audioContext = new (window.AudioContext ||
       window.webkitAudioContext)();
     const analyser = audioContext.createAnalyser();
@@ -128,10 +349,7 @@ async function testMicrophone() {
 
 async function listAudioDevices() {
   try {
-    const devices = await navigator.mediaDevices.enumerateDevices();
-    const audioDevices = devices.filter(
-      (device) => device.kind === "audioinput",
-    );
+    const audioDevices = await listInputDevices();
     console.log("Available audio input devices:", audioDevices);
     audioDevices.forEach((device) => {
       console.log(`Device ID: ${device.deviceId}, Label: ${device.label}`);
@@ -142,39 +360,158 @@ async function listAudioDevices() {
 }
 
 function checkAudioLevels() {
-  if (!isRecording) return;
+  if (!isRecording && !isArmed) return;
 
   const dataArray = new Uint8Array(analyser.frequencyBinCount);
   analyser.getByteFrequencyData(dataArray);
   const average =
     dataArray.reduce((sum, value) => sum + value, 0) / dataArray.length;
 
+  const now = performance.now();
+  const event = voiceActivity.update(average, now);
+
+  // A muted or dead microphone delivers exact silence, warn instead of recording nothing
+  if (isRecording) {
+    if (average >= SILENT_LEVEL) {
+      silentSince = null;
+      if (isMicrophoneSilent) {
+        isMicrophoneSilent = false;
+        reportMicrophoneStatus();
+      }
+    } else if (silentSince === null) {
+      silentSince = now;
+    } else if (!isMicrophoneSilent && now - silentSince > SILENT_WARNING_MS) {
+      console.warn(`Microphone ${activeDevice.label} is silent`);
+      isMicrophoneSilent = true;
+      reportMicrophoneStatus();
+    }
+  }
+  if (isArmed && !isRecording) {
+    if (event === "speech-start") {
+      console.log("Speech detected, recording started");
+      isArmed = false;
+      isRecording = true;
+      speechStartedAt = Date.now();
+    } else if (now - armedAt > recordingConfig.maxWaitMs) {
+      console.log("No speech detected, stopping hands-free listening");
+      stopListening();
+      return;
+    }
+  } else if (event === "silence-timeout" && isHandsFree) {
+    console.log("Silence detected, stopping recording");
+    stopRecording();
+  }
+
   requestAnimationFrame(checkAudioLevels);
 }
 
+// Transcribe the latest stretch of the recording; skipped while the previous partial is still running
+async function sendPartialTranscription() {
+  if (partialInFlight) return;
+  partialInFlight = true;
+  try {
+    // The first chunk carries the container header the later chunks need to decode
+    const chunks =
+      audioChunks.length > PARTIAL_WINDOW_CHUNKS + 1
+        ? [audioChunks[0], ...audioChunks.slice(-PARTIAL_WINDOW_CHUNKS)]
+        : audioChunks;
+    // Partials are sent as recorded, preprocessing runs once on the final audio
+    const arrayBuffer = await new Blob(chunks, {
+      type: recorderMimeType,
+    }).arrayBuffer();
+    await window.electronAPI.transcribePartial(
+      sessionId,
+      arrayBuffer,
+      extensionForMimeType(recorderMimeType),
+      translateRecording,
+    );
+  } catch (error) {
+    console.error("Error sending partial transcription:", error);
+  } finally {
+    partialInFlight = false;
+  }
+}
+
 async function handleRecordingStop() {
   try {
     console.log("Handling recording stop");
-    const audioBlob = new Blob(audioChunks, { type: "audio/webm" });
+    const audioBlob = new Blob(audioChunks, { type: recorderMimeType });
     console.log("Audio blob created, size:", audioBlob.size);
 
-    const arrayBuffer = await audioBlob.arrayBuffer();
-    console.log("ArrayBuffer created, size:", arrayBuffer.byteLength);
+    if (isCancelled) {
+      console.log("Recording cancelled, discarding audio");
+      window.electronAPI.reportRecordingStatus("idle");
+      return;
+    }
 
-    if (arrayBuffer.byteLength < 1000) {
-      console.warn("Audio data too small, possibly no audio captured");
+    if (!voiceActivity.hasSpeech()) {
+      console.warn("No speech detected, discarding recording");
+      window.electronAPI.reportRecordingStatus("idle");
       return;
     }
 
-    const response = await window.electronAPI.transcribeAudio(arrayBuffer);
+    // Smaller uploads that quiet microphones are easier to recognise in;
+    // the recording is sent as is when it cannot be decoded
+    let upload = null;
+    if (recordingConfig.preprocess) {
+      upload = await prepareRecording(
+        audioBlob,
+        recordingConfig.uploadFormat,
+        Math.max(0, speechStartedAt - recordingStartedAt - PRE_ROLL_MS),
+      );
+    }
+    const arrayBuffer = upload
+      ? upload.data
+      : await audioBlob.arrayBuffer();
+    const format = upload
+      ? upload.format
+      : extensionForMimeType(recorderMimeType);
+    console.log(
+      `Uploading ${format} audio, ${arrayBuffer.byteLength} bytes (recorded ${audioBlob.size})`,
+    );
+
+    const response = await window.electronAPI.transcribeAudio(arrayBuffer, {
+      sessionId,
+      // After trimming when preprocessed, the length of what is uploaded
+      durationMs: upload ? upload.durationMs : Date.now() - recordingStartedAt,
+      target: recordingTarget,
+      agentBackend: agentBackend ?? undefined,
+      format,
+      translate: translateRecording,
+    });
     console.log("Transcription response:", response);
 
-    if (response && typeof response === "string" && response.length > 0) {
-      const success = await window.electronAPI.simulateTyping(response);
-      if (success) {
-        console.log("Typing simulated successfully");
+    if (
+      recordingTarget === "agent" &&
+      response &&
+      typeof response === "string"
+    ) {
+      const answer = await window.electronAPI.runPrompt(
+        response,
+        agentBackend ?? undefined,
+      );
+      if (answer.cancelled || answer.timedOut) {
+        console.warn(
+          `Agent run ${answer.timedOut ? "timed out" : "was cancelled"} after ${answer.durationMs}ms`,
+        );
+      } else if (answer.exitCode !== 0) {
+        console.error(
+          `Agent failed (exit ${answer.exitCode}):`,
+          answer.error || answer.stderr,
+        );
       } else {
-        console.error("Failed to simulate typing");
+        console.log("Agent response:", answer.stdout);
+      }
+    } else if (
+      response &&
+      typeof response === "string" &&
+      response.length > 0
+    ) {
+      const result = await window.electronAPI.simulateTyping(response);
+      if (result.success) {
+        console.log(`Text inserted via ${result.strategy}: ${result.message}`);
+      } else {
+        console.error("Failed to insert text:", result.message);
       }
     } else {
       console.warn(
@@ -186,13 +523,28 @@ async function handleRecordingStop() {
   } finally {
     audioChunks = [];
     console.log("Audio chunks cleared");
+    silentSince = null;
+    if (isMicrophoneSilent) {
+      isMicrophoneSilent = false;
+      reportMicrophoneStatus();
+    }
+    if (pendingDeviceSwitch) {
+      switchAudioInput();
+    }
   }
 }
 
 console.log("Setting up onToggleRecording in renderer");
-window.electronAPI.onToggleRecording(() => {
+window.electronAPI.onToggleRecording((request) => {
   console.log("onToggleRecording callback triggered in renderer");
-  if (isRecording) {
+  if (isArmed && !isRecording) {
+    console.log("Cancelling hands-free listening");
+    stopListening();
+  } else if (isStarting) {
+    // A second press while the microphone opens stops instead of starting again
+    console.log("Stop requested while starting");
+    stopRequested = true;
+  } else if (isRecording) {
     console.log("Stopping recording");
     if (!stopRecording()) {
       console.log("Failed to stop recording, starting new recording");
@@ -200,10 +552,40 @@ window.electronAPI.onToggleRecording(() => {
     }
   } else {
     console.log("Starting recording");
-    startRecording();
+    startRecording({
+      target: request?.target,
+      agentBackend: request?.agentBackend,
+      translate: request?.translate,
+    });
   }
 });
 
+// Push-to-talk: record only while the shortcut is held
+window.electronAPI.onStartRecording((request) => {
+  if (isRecording || isStarting || isArmed) return;
+  console.log("Push-to-talk pressed, starting recording");
+  startRecording({
+    target: request.target,
+    agentBackend: request.agentBackend,
+    translate: request.translate,
+    pushToTalk: true,
+  });
+});
+
+window.electronAPI.onStopRecording(() => {
+  console.log("Push-to-talk released, stopping recording");
+  if (isStarting) {
+    stopRequested = true;
+  } else {
+    stopRecording();
+  }
+});
+
+window.electronAPI.onCancelRecording(() => {
+  console.log("Cancelling recording");
+  cancelRecording();
+});
+
 console.log("Renderer script fully loaded");
 
 // Initialize audio when the script loads
@@ -213,15 +595,137 @@ initializeAudio().catch((error) => {
 
 listAudioDevices();
 
+// Follow microphones being plugged in and out
+navigator.mediaDevices.addEventListener("devicechange", async () => {
+  if (!isAudioInitialized) return;
+  const { recording } = await window.electronAPI.getSettings();
+  const device = await resolveInputDevice({
+    deviceId: recording.inputDeviceId,
+    label: recording.inputDeviceLabel,
+  });
+  // Only reopen when a different device would be used now
+  if (
+    device.deviceId !== activeDevice?.deviceId ||
+    device.fallback !== activeDevice?.fallback
+  ) {
+    console.log("Audio devices changed, switching microphone");
+    switchAudioInput();
+  }
+});
+
+// A microphone chosen in the settings window is used from the next recording
+window.electronAPI.onSettingsChanged((settings) => {
+  if (
+    activeDevice &&
+    (settings.recording.inputDeviceId !== devicePreference.deviceId ||
+      settings.recording.inputDeviceLabel !== devicePreference.label)
+  ) {
+    switchAudioInput();
+  }
+});
+
 document
   .getElementById("testMicButton")
-  .addEventListener("click", testMicrophone);
+  ?.addEventListener("click", testMicrophone);
 
 window.electronAPI.onTranscriptionResult((result) => {
-  console.log("Transcription result:", result);
-  // Handle the transcription result (e.g., display it in the UI)
-  const input = document.querySelector("input");
-  if (input) {
-    input.value += result + " ";
+  // Displayed by the Notch, partial results follow the speech until the final pass replaces them
+  console.log(
+    `Transcription result (${result.isFinal ? "final" : "partial"}):`,
+    result.text,
+  );
+});
+
+window.electronAPI.onTranscriptionProgress((progress) => {
+  console.log(`Transcription progress: ${progress.stage} ${progress.percent}%`);
+});
+
+window.electronAPI.onPromptOutput((output) => {
+  console.log(`Agent ${output.stream}:`, output.text);
+});
+
+// Spoken answers: the main process keeps the answer up while speech plays
+const speaker = createSpeaker(window.electronAPI.synthesizeSpeech, {
+  onStart: () => window.electronAPI.reportSpeechStatus("speaking"),
+  onEnd: (completed, error) => {
+    if (error) console.error("Speech failed:", error);
+    window.electronAPI.reportSpeechStatus(
+      completed ? "finished" : error ? "failed" : "stopped",
+    );
+  },
+});
+
+window.electronAPI.onPipelineStatus(async ({ status, message }) => {
+  if (status === "answering" && message) {
+    const { speech } = await window.electronAPI.getSettings();
+    if (speech.enabled) {
+      speaker.speak(message, speech);
+    }
+  } else if (speaker.isSpeaking()) {
+    // The answer was dismissed or a new dictation started
+    speaker.stop();
+  }
+});
+
+window.electronAPI.onStopSpeech(() => speaker.stop());
+
+// Wake word: listen on the open microphone stream while nothing else is going on
+function shouldListenForWakeWord() {
+  return (
+    wakeWordState.enabled &&
+    !wakeWordState.paused &&
+    pipelineIdle &&
+    !isRecording &&
+    !isArmed &&
+    !isStarting
+  );
+}
+
+let wakeWordStarting = false;
+
+async function updateWakeWordListening() {
+  if (shouldListenForWakeWord() && !wakeWordListener && !wakeWordStarting) {
+    wakeWordStarting = true;
+    try {
+      if (!isAudioInitialized) {
+        await initializeAudio();
+      }
+      const { wakeWord } = await window.electronAPI.getSettings();
+      wakeWordListener = createWakeWordListener(audioContext, audioSource, {
+        threshold: wakeWord.threshold,
+        check: window.electronAPI.checkWakeWord,
+        onWake: async () => {
+          const { wakeWord: current } = await window.electronAPI.getSettings();
+          // Nobody presses a key to stop, so the dictation always ends on silence
+          startRecording({ target: current.target, handsFree: true });
+        },
+      });
+    } catch (error) {
+      console.error("Could not start wake word listening:", error);
+      return;
+    } finally {
+      wakeWordStarting = false;
+    }
   }
+  // Checked again, the state may have changed while the listener was set up
+  wakeWordListener?.setActive(shouldListenForWakeWord());
+}
+
+window.electronAPI.onWakeWordState((state) => {
+  console.log("Wake word state:", state);
+  wakeWordState = state;
+  // Settings such as the threshold may have changed, start over
+  wakeWordListener?.dispose();
+  wakeWordListener = null;
+  updateWakeWordListening();
+});
+
+window.electronAPI.onPipelineStatus(({ status }) => {
+  pipelineIdle = status === "idle";
+  updateWakeWordListening();
+});
+
+window.electronAPI.getWakeWordState().then((state) => {
+  wakeWordState = state;
+  updateWakeWordListening();
 });
@@ -0,0 +1,41 @@
+import { useState, useEffect } from "react";
+import { createRoot } from "react-dom/client";
+import "./index.css";
+import SettingsComponent from "./components/Settings";
+import HistoryComponent from "./components/History";
+
+type Tab = "settings" | "history";
+
+// The main process opens this window at #settings or #history
+const getTab = (): Tab =>
+  window.location.hash === "#history" ? "history" : "settings";
+
+const SettingsWindow: React.FC = () => {
+  const [tab, setTab] = useState<Tab>(getTab());
+
+  useEffect(() => {
+    const onHashChange = () => setTab(getTab());
+    window.addEventListener("hashchange", onHashChange);
+    return () => window.removeEventListener("hashchange", onHashChange);
+  }, []);
+
+  return (
+    <div>
+      <nav style={{ display: "flex", gap: "8px", marginBottom: "12px" }}>
+        {(["settings", "history"] as Tab[]).map((name) => (
+          <button
+            key={name}
+            onClick={() => (window.location.hash = name)}
+            style={{ fontWeight: tab === name ? 600 : 400 }}
+          >
+            {name === "settings" ? "Settings" : "History"}
+          </button>
+        ))}
+      </nav>
+      {tab === "settings" ? <SettingsComponent /> : <HistoryComponent />}
+    </div>
+  );
+};
+
+const root = createRoot(document.getElementById("root") as HTMLElement);
+root.render(<SettingsWindow />);
@@ -0,0 +1,142 @@
+// types/electron-api
+// Shape of the API exposed by preload.ts on `window.electronAPI`
+
+import type { AgentOutputEvent, AgentRunResult } from "../lib/agent";
+import type { HistoryEntry, HistoryQuery } from "../lib/history";
+import type { QueuedJob } from "../lib/queue";
+import type { InsertionResult } from "../lib/insertion";
+import type { Settings, SettingsPatch } from "../lib/settings";
+import type { ShortcutStatus } from "../lib/shortcuts";
+import type { TranscriptionProgress } from "../lib/transcription";
+
+export interface TranscriptionResultEvent {
+  sessionId: string;
+  text: string;
+  isFinal: boolean; // Partial results are superseded by the final pass on stop
+  language?: string; // Detected spoken language, when the engine reports it
+  translated?: boolean;
+}
+
+export interface RecordingRequest {
+  target: "insert" | "agent"; // Type the transcript, or send it to the agent
+  agentBackend?: string; // Agent target: id of the backend, the default one when unset
+  translate?: boolean; // Insert target: English text from speech in any language
+}
+
+export interface TranscribeRequest {
+  sessionId?: string; // Ties the final result to the partial results of the same recording
+  durationMs?: number; // Length of the recording, stored in the history
+  target?: RecordingRequest["target"]; // The agent target keeps the pipeline busy after transcription
+  agentBackend?: string; // Agent target: kept with the recording when it is queued for a retry
+  format?: string; // File extension of the audio, "webm" when omitted
+  translate?: boolean;
+}
+
+// Where a dictation is in its journey from the microphone to the answer
+export type PipelineStatus =
+  "idle" | "recording" | "transcribing" | "agent" | "answering" | "error";
+
+export interface PipelineStatusEvent {
+  status: PipelineStatus;
+  message?: string; // The answer while answering, the reason on error
+}
+
+export interface MicrophoneStatus {
+  label: string; // Device currently recorded from
+  fallback: boolean; // The chosen microphone is not connected, the default is used
+  silent: boolean; // The device has delivered nothing but silence while recording
+}
+
+export interface WakeWordState {
+  enabled: boolean;
+  paused: boolean;
+  phrase: string;
+}
+
+// Reported by the renderer while it reads an answer aloud
+export type SpeechStatus = "speaking" | "finished" | "stopped" | "failed";
+
+// The stages only the renderer knows about, reported to the main process
+export type RecordingStatus = Extract<
+  PipelineStatus,
+  "recording" | "idle" | "error"
+>;
+
+export interface ElectronAPI {
+  onTestMessage: (callback: (message: string) => void) => void;
+  onToggleRecording: (callback: (request?: RecordingRequest) => void) => void;
+  onStartRecording: (callback: (request: RecordingRequest) => void) => void;
+  onStopRecording: (callback: () => void) => void;
+  onCancelRecording: (callback: () => void) => void;
+  transcribeAudio: (
+    arrayBuffer: ArrayBuffer,
+    request?: TranscribeRequest,
+  ) => Promise<string | null>;
+  transcribePartial: (
+    sessionId: string,
+    arrayBuffer: ArrayBuffer,
+    format?: string,
+    translate?: boolean,
+  ) => Promise<void>;
+  getSettings: () => Promise<Settings>;
+  updateSettings: (patch: SettingsPatch) => Promise<Settings>;
+  onSettingsChanged: (callback: (settings: Settings) => void) => () => void;
+  simulateTyping: (text: string) => Promise<InsertionResult>;
+  hideWindow: () => Promise<void>;
+  requestMicrophoneAccess: () => Promise<boolean>;
+  onTranscriptionResult: (
+    callback: (result: TranscriptionResultEvent) => void,
+  ) => () => void;
+  onTranscriptionProgress: (
+    callback: (progress: TranscriptionProgress) => void,
+  ) => void;
+  listHistory: (query?: HistoryQuery) => Promise<HistoryEntry[]>;
+  deleteHistoryEntry: (id: string) => Promise<boolean>;
+  reinsertHistoryEntry: (
+    id: string,
+    raw?: boolean, // The text before the cleanup pass, when there is one
+  ) => Promise<InsertionResult>;
+  getHistoryAudio: (id: string) => Promise<ArrayBuffer | null>;
+  onHistoryChanged: (callback: () => void) => () => void;
+  listQueuedJobs: () => Promise<QueuedJob[]>;
+  retryQueuedJob: (id: string) => Promise<string>; // The transcript
+  discardQueuedJob: (id: string) => Promise<boolean>;
+  onQueueChanged: (callback: () => void) => () => void;
+  importVocabulary: () => Promise<{ success: boolean; message: string }>;
+  exportVocabulary: (
+    profileIds?: string[], // Every profile when unset
+  ) => Promise<{ success: boolean; message: string; filePath?: string }>;
+  getShortcutStatus: () => Promise<ShortcutStatus[]>;
+  getPipelineStatus: () => Promise<PipelineStatusEvent>;
+  reportRecordingStatus: (status: RecordingStatus, message?: string) => void;
+  onPipelineStatus: (
+    callback: (event: PipelineStatusEvent) => void,
+  ) => () => void;
+  resizeOverlay: (width: number, height: number) => void; // Size of the content, in CSS pixels
+  insertAnswer: () => Promise<InsertionResult | null>;
+  dismissAnswer: () => void;
+  synthesizeSpeech: (text: string) => Promise<ArrayBuffer>; // WAV from the local engine
+  reportSpeechStatus: (status: SpeechStatus) => void;
+  onStopSpeech: (callback: () => void) => void;
+  checkWakeWord: (wav: ArrayBuffer) => Promise<boolean>;
+  getWakeWordState: () => Promise<WakeWordState>;
+  setWakeWordPaused: (paused: boolean) => Promise<void>;
+  onWakeWordState: (callback: (state: WakeWordState) => void) => () => void;
+  reportMicrophoneStatus: (status: MicrophoneStatus) => void;
+  getMicrophoneStatus: () => Promise<MicrophoneStatus | null>;
+  onMicrophoneStatus: (
+    callback: (status: MicrophoneStatus) => void,
+  ) => () => void;
+  runPrompt: (
+    promptText: string,
+    backendId?: string, // The default backend when unset
+  ) => Promise<AgentRunResult>;
+  cancelPrompt: (runId?: string) => Promise<boolean>; // All runs when no id is given
+  onPromptOutput: (callback: (output: AgentOutputEvent) => void) => () => void;
+}
+
+declare global {
+  interface Window {
+    electronAPI: ElectronAPI;
+  }
+}